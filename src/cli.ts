@@ -0,0 +1,323 @@
+#!/usr/bin/env node
+import { promises as fs, readFileSync } from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import simpleGit from 'simple-git';
+import { isReviewablePath, parseProjectConfig, PROJECT_CONFIG_FILES, resolvePolicy } from './core/config';
+import { GitChangeReader, parseChangedLineRanges } from './core/git';
+import { CodeLocator } from './core/locator';
+import { OpenAICompatibleModelProvider } from './core/model';
+import { BUILT_IN_PERSONAS, buildReviewPrompt, prepareCodeChunks } from './core/prompts';
+import { REPORT_FORMATS, ReviewReportExporter, SEVERITY_LABELS } from './core/report';
+import { applyChangeScope, meetsSeverity, requestReviewItems } from './core/review';
+import { CancellationSource, ReviewScheduler } from './core/scheduler';
+import { ChangedFile, ProjectReviewConfig, ReportComment, ReportFormat, ReviewLogger, SEVERITY_ORDER } from './core/types';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Types & Interfaces
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Represents where the command line interface writes its output */
+export interface CliOutput {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+}
+
+/** Output formats of the command line interface: a plain list of comments, or one of the report formats */
+type CliFormat = 'text' | ReportFormat;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Exit codes: no comments at or above the `--fail-on` severity, some were found, or the review couldn't run */
+const EXIT_OK = 0;
+const EXIT_FINDINGS = 1;
+const EXIT_ERROR = 2;
+
+const CLI_FORMATS: CliFormat[] = ['text', ...Object.keys(REPORT_FORMATS) as ReportFormat[]];
+
+const USAGE = `Usage: pear-review [options]
+
+Reviews the uncommitted changes of the Git repository in the current directory,
+the staged changes, or everything that changed since the branch forked from --base.
+
+Options:
+  --base <ref>           Review the current branch against a base ref, e.g. main
+  --staged               Review only the staged changes, e.g. in a pre-commit hook
+  --format <format>      ${CLI_FORMATS.join(', ')} (default: text)
+  --output <file>        Write the report to a file instead of standard output
+  --fail-on <severity>   Exit with 1 when a comment is at least this severe:
+                         ${SEVERITY_ORDER.join(', ')} or none (default: error)
+  --endpoint <url>       OpenAI-compatible server (default: $PEAR_REVIEW_ENDPOINT
+                         or http://localhost:11434/v1)
+  --trust-project-endpoint
+                         Use the server named by the project config when no
+                         --endpoint is given; it receives your code and API key
+  --model <name>         Model name (default: $PEAR_REVIEW_MODEL or the project config)
+  --api-key <key>        API key for the server (default: $PEAR_REVIEW_API_KEY)
+  --persona <id>         ${BUILT_IN_PERSONAS.map(persona => persona.id).join(', ')} (default: pear)
+  --scope <scope>        file or changes (default: file)
+  --concurrency <n>      Files reviewed at the same time (default: 3)
+  --max-lines <n>        Lines per model request for large files (default: 400)
+  --cwd <dir>            Repository to review (default: the current directory)
+  --verbose              Log what the review does to standard error
+  --help                 Show this help
+
+Exit codes: 0 when no comment reaches --fail-on, 1 when one does, 2 on errors.`;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Command Line Interface
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Runs a review with the given command line arguments and returns the exit code.
+ * Cancelling the token stops the review and reports what was reviewed so far.
+ */
+export async function run(
+    args: string[],
+    output: CliOutput = {
+        stdout: text => process.stdout.write(text),
+        stderr: text => process.stderr.write(text)
+    },
+    cancellation: CancellationSource = new CancellationSource()
+): Promise<number> {
+    let options;
+    try {
+        options = parseArgs({
+            args,
+            options: {
+                'base': { type: 'string' },
+                'staged': { type: 'boolean', default: false },
+                'format': { type: 'string', default: 'text' },
+                'output': { type: 'string' },
+                'fail-on': { type: 'string', default: 'error' },
+                'endpoint': { type: 'string' },
+                'trust-project-endpoint': { type: 'boolean', default: false },
+                'model': { type: 'string' },
+                'api-key': { type: 'string' },
+                'persona': { type: 'string', default: 'pear' },
+                'scope': { type: 'string', default: 'file' },
+                'concurrency': { type: 'string', default: '3' },
+                'max-lines': { type: 'string', default: '400' },
+                'cwd': { type: 'string' },
+                'verbose': { type: 'boolean', default: false },
+                'help': { type: 'boolean', default: false }
+            }
+        }).values;
+    } catch (error) {
+        output.stderr(`pear-review: ${error instanceof Error ? error.message : error}\n\n${USAGE}\n`);
+        return EXIT_ERROR;
+    }
+
+    if (options.help) {
+        output.stdout(`${USAGE}\n`);
+        return EXIT_OK;
+    }
+
+    const verbose = (message: string) => {
+        if (options.verbose) {
+            output.stderr(`${message}\n`);
+        }
+    };
+    const log: ReviewLogger = {
+        debug: verbose,
+        info: verbose,
+        warn: message => output.stderr(`warning: ${message}\n`)
+    };
+
+    try {
+        const format = readChoice(options.format, CLI_FORMATS, '--format');
+        const failOn = readChoice(options['fail-on'], [...SEVERITY_ORDER, 'none' as const], '--fail-on');
+        const scope = readChoice(options.scope, ['file', 'changes'], '--scope');
+        const persona = BUILT_IN_PERSONAS.find(candidate => candidate.id === options.persona);
+        if (!persona) {
+            throw new Error(`--persona should be one of ${BUILT_IN_PERSONAS.map(candidate => candidate.id).join(', ')}`);
+        }
+        if (options.base && options.staged) {
+            throw new Error('--base and --staged can\'t be combined');
+        }
+        const concurrency = readPositiveNumber(options.concurrency, '--concurrency');
+        const maxLines = readPositiveNumber(options['max-lines'], '--max-lines');
+
+        const git = simpleGit(path.resolve(options.cwd ?? process.cwd()));
+        let root: string;
+        try {
+            root = path.resolve((await git.revparse(['--show-toplevel'])).trim());
+        } catch (error) {
+            throw new Error('not inside a Git repository');
+        }
+
+        const config = await loadProjectConfig(root, log);
+        // A checked-out repository must not send the code and the API key to a server of its choosing
+        let endpoint = options.endpoint ?? process.env.PEAR_REVIEW_ENDPOINT;
+        if (!endpoint && config.model?.endpoint) {
+            if (options['trust-project-endpoint']) {
+                endpoint = config.model.endpoint;
+            } else {
+                log.warn(`ignoring the endpoint ${config.model.endpoint} of the project config; pass --trust-project-endpoint to use it`);
+            }
+        }
+        endpoint ??= 'http://localhost:11434/v1';
+        const modelName = options.model ?? process.env.PEAR_REVIEW_MODEL ?? config.model?.name;
+        if (!modelName) {
+            throw new Error('no model given; use --model or set PEAR_REVIEW_MODEL');
+        }
+        const modelProvider = new OpenAICompatibleModelProvider(endpoint, modelName, options['api-key'] ?? process.env.PEAR_REVIEW_API_KEY);
+
+        const reader = new GitChangeReader(simpleGit(root), root);
+        let changes: ChangedFile[];
+        if (options.base) {
+            const mergeBase = await reader.getMergeBase(options.base);
+            if (!mergeBase) {
+                throw new Error(`no common ancestor with ${options.base}; has it been fetched?`);
+            }
+            changes = await reader.getChangesSince(mergeBase);
+        } else if (options.staged) {
+            changes = await reader.getStagedChanges();
+        } else {
+            changes = await reader.getWorkingTreeChanges();
+        }
+
+        const files = changes.filter(change => change.type !== 'delete' && isReviewablePath(config, change.path, change.newContent));
+        log.info(`Reviewing ${files.length} of ${changes.length} changed files with ${modelProvider.name}`);
+
+        const startedAt = new Date().toISOString();
+        const comments: ReportComment[] = [];
+        const codeLocator = new CodeLocator();
+        const scheduler = new ReviewScheduler(concurrency, 3);
+
+        await scheduler.runAll(files, async file => {
+            const changedRanges = scope === 'changes' && file.type !== 'add' ? parseChangedLineRanges(file.diff) : undefined;
+
+            // Pure renames have no changed lines to look at
+            if (changedRanges?.length === 0) {
+                return;
+            }
+
+            const policy = resolvePolicy(config, file.path);
+            const fileExtension = path.extname(file.path).replace('.', '');
+            const promptFile = { filePath: file.path, language: fileExtension || 'plaintext', diff: file.diff };
+            const lines = file.newContent.split(/\r?\n/);
+
+            for (const chunk of prepareCodeChunks(file.newContent, fileExtension, changedRanges, maxLines)) {
+                const prompt = buildReviewPrompt(persona, promptFile, chunk, policy, !!changedRanges);
+                const items = await scheduler.withRetry(
+                    () => requestReviewItems(modelProvider, prompt, file.path, cancellation, log),
+                    cancellation
+                );
+
+                const scopedItems = changedRanges ? applyChangeScope(items, changedRanges, 'drop') : items;
+                for (const item of scopedItems.filter(candidate => meetsSeverity(candidate.severity, policy.minSeverity))) {
+                    const location = codeLocator.locate(lines, item.line, item.code);
+                    if (!location) {
+                        log.warn(`${file.path}: dropped comment on line ${item.line}, the file has ${lines.length} lines: ${item.message}`);
+                        continue;
+                    }
+                    comments.push({
+                        filePath: file.path,
+                        relativePath: file.path,
+                        line: location.startLine + 1,
+                        column: location.startCharacter + 1,
+                        endLine: location.endLine + 1,
+                        endColumn: location.endCharacter + 1,
+                        severity: item.severity,
+                        category: item.category,
+                        message: item.message,
+                        code: item.code,
+                        suggestions: item.suggestions,
+                        praise: item.praise,
+                        outdated: false
+                    });
+                }
+            }
+        }, cancellation);
+
+        comments.sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line || a.column - b.column);
+
+        const report = format === 'text'
+            ? formatText(comments)
+            : new ReviewReportExporter().render(format, comments, {
+                toolVersion: getToolVersion(),
+                generatedAt: new Date().toISOString(),
+                runs: [{ baseRef: options.base ?? 'HEAD', models: [modelProvider.name], startedAt }],
+                repositories: [await reader.getRepositoryState(path.basename(root))].filter(state => state !== undefined)
+            });
+        if (options.output) {
+            await fs.writeFile(path.resolve(options.output), report, 'utf8');
+        } else {
+            output.stdout(report);
+        }
+
+        if (cancellation.isCancellationRequested) {
+            output.stderr('pear-review: cancelled, the report only covers the files reviewed so far\n');
+            return EXIT_ERROR;
+        }
+        return failOn !== 'none' && comments.some(comment => meetsSeverity(comment.severity, failOn))
+            ? EXIT_FINDINGS
+            : EXIT_OK;
+    } catch (error) {
+        output.stderr(`pear-review: ${error instanceof Error ? error.message : error}\n`);
+        return EXIT_ERROR;
+    }
+}
+
+/** Lists comments one per line, in the `file:line:column: severity: message [category]` form editors and CI logs link up */
+function formatText(comments: ReportComment[]): string {
+    const lines = comments.map(comment =>
+        `${comment.filePath}:${comment.line}:${comment.column}: ${comment.severity}: ${comment.message.replace(/\s*\n\s*/g, ' ')}${comment.category ? ` [${comment.category}]` : ''}`
+    );
+    const counts = SEVERITY_ORDER.map(severity =>
+        `${comments.filter(comment => comment.severity === severity).length} ${SEVERITY_LABELS[severity].toLowerCase()}`
+    );
+    lines.push(`🍐 ${comments.length} comment${comments.length === 1 ? '' : 's'}: ${counts.join(', ')}`);
+    return `${lines.join('\n')}\n`;
+}
+
+/** Reads the first project config file found in the repository root */
+async function loadProjectConfig(root: string, log: ReviewLogger): Promise<ProjectReviewConfig> {
+    for (const fileName of PROJECT_CONFIG_FILES) {
+        let text: string;
+        try {
+            text = await fs.readFile(path.join(root, fileName), 'utf8');
+        } catch (error) {
+            continue;
+        }
+
+        const { config, problems } = parseProjectConfig(text, fileName);
+        if (problems.length > 0) {
+            log.warn(`skipped some settings in ${fileName}: ${problems.join('; ')}`);
+        }
+        return config;
+    }
+    return {};
+}
+
+function readChoice<T extends string>(value: string | undefined, choices: readonly T[], name: string): T {
+    if (choices.includes(value as T)) {
+        return value as T;
+    }
+    throw new Error(`${name} should be one of ${choices.join(', ')}`);
+}
+
+function readPositiveNumber(value: string | undefined, name: string): number {
+    const number = Number(value);
+    if (Number.isInteger(number) && number > 0) {
+        return number;
+    }
+    throw new Error(`${name} should be a positive whole number`);
+}
+
+function getToolVersion(): string {
+    try {
+        return JSON.parse(readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')).version;
+    } catch (error) {
+        return 'unknown';
+    }
+}
+
+if (require.main === module) {
+    const cancellation = new CancellationSource();
+    process.once('SIGINT', () => cancellation.cancel());
+    run(process.argv.slice(2), undefined, cancellation).then(code => process.exitCode = code);
+}
@@ -0,0 +1,164 @@
+import { minimatch } from 'minimatch';
+import * as YAML from 'yaml';
+import { REVIEW_CATEGORIES } from './prompts';
+import { ProjectReviewConfig, ProjectReviewOverride, ReviewPolicy, Severity, SEVERITY_ORDER } from './types';
+
+/** Project config file names looked up in each folder root, in order of precedence */
+export const PROJECT_CONFIG_FILES = ['.pearreview.json', '.pearreview.yml', '.pearreview.yaml'];
+
+/**
+ * Parses a project config file, keeping its well-formed parts.
+ * Throws when the file can't be parsed at all; settings that were skipped are returned as problems.
+ */
+export function parseProjectConfig(text: string, fileName: string): { config: ProjectReviewConfig; problems: string[] } {
+    const raw: unknown = fileName.endsWith('.json') ? JSON.parse(text) : YAML.parse(text);
+    if (!isObject(raw)) {
+        throw new Error('The file should contain an object.');
+    }
+
+    const problems: string[] = [];
+    const config: ProjectReviewConfig = {
+        categories: readCategories(raw.categories, 'categories', problems),
+        include: readStrings(raw.include, 'include', problems),
+        exclude: readStrings(raw.exclude, 'exclude', problems),
+        minSeverity: readSeverity(raw.minSeverity, 'minSeverity', problems),
+        guidelines: readString(raw.guidelines, 'guidelines', problems)
+    };
+
+    if (raw.maxFileSize !== undefined) {
+        if (typeof raw.maxFileSize === 'number' && raw.maxFileSize > 0) {
+            config.maxFileSize = raw.maxFileSize;
+        } else {
+            problems.push('maxFileSize should be a positive number of bytes');
+        }
+    }
+
+    if (raw.model !== undefined) {
+        if (isObject(raw.model)) {
+            const provider = raw.model.provider;
+            if (provider !== undefined && provider !== 'vscode' && provider !== 'openai-compatible') {
+                problems.push('model.provider should be "vscode" or "openai-compatible"');
+            }
+            config.model = {
+                provider: provider === 'vscode' || provider === 'openai-compatible' ? provider : undefined,
+                vendor: readString(raw.model.vendor, 'model.vendor', problems),
+                family: readString(raw.model.family, 'model.family', problems),
+                endpoint: readString(raw.model.endpoint, 'model.endpoint', problems),
+                name: readString(raw.model.name, 'model.name', problems)
+            };
+        } else {
+            problems.push('model should be an object');
+        }
+    }
+
+    if (raw.overrides !== undefined) {
+        if (Array.isArray(raw.overrides)) {
+            config.overrides = raw.overrides.flatMap((override: unknown, index): ProjectReviewOverride[] => {
+                const name = `overrides[${index}]`;
+                const paths = isObject(override)
+                    ? readStrings(typeof override.paths === 'string' ? [override.paths] : override.paths, `${name}.paths`, problems)
+                    : undefined;
+                if (!isObject(override) || !paths?.length) {
+                    problems.push(`${name} needs "paths"`);
+                    return [];
+                }
+                return [{
+                    paths,
+                    categories: readCategories(override.categories, `${name}.categories`, problems),
+                    minSeverity: readSeverity(override.minSeverity, `${name}.minSeverity`, problems),
+                    guidelines: readString(override.guidelines, `${name}.guidelines`, problems)
+                }];
+            });
+        } else {
+            problems.push('overrides should be a list');
+        }
+    }
+
+    return { config, problems };
+}
+
+/** Checks a file, by its path relative to the config's folder, against the include and exclude globs and the size limit */
+export function isReviewablePath(config: ProjectReviewConfig, relativePath: string, content: string): boolean {
+    if (config.maxFileSize && Buffer.byteLength(content) > config.maxFileSize) {
+        return false;
+    }
+    return matchesReviewGlobs(config, relativePath);
+}
+
+/** Checks a path against the include and exclude globs only, e.g. before reading the file */
+export function matchesReviewGlobs(config: ProjectReviewConfig, relativePath: string): boolean {
+    if (config.include?.length && !matches(relativePath, config.include)) {
+        return false;
+    }
+    return !config.exclude?.length || !matches(relativePath, config.exclude);
+}
+
+/** Returns the rules for a file, with overrides applied in the order they are listed */
+export function resolvePolicy(config: ProjectReviewConfig, relativePath: string): ReviewPolicy {
+    const policy: ReviewPolicy = {
+        categories: config.categories?.length ? config.categories : Object.keys(REVIEW_CATEGORIES),
+        minSeverity: config.minSeverity ?? 'info',
+        guidelines: config.guidelines ? [config.guidelines] : []
+    };
+
+    for (const override of config.overrides ?? []) {
+        if (!matches(relativePath, override.paths)) {
+            continue;
+        }
+        if (override.categories?.length) {
+            policy.categories = override.categories;
+        }
+        if (override.minSeverity) {
+            policy.minSeverity = override.minSeverity;
+        }
+        if (override.guidelines) {
+            policy.guidelines.push(override.guidelines);
+        }
+    }
+
+    return policy;
+}
+
+function readString(value: unknown, name: string, problems: string[]): string | undefined {
+    if (value === undefined || typeof value === 'string') {
+        return value;
+    }
+    problems.push(`${name} should be text`);
+    return undefined;
+}
+
+function readStrings(value: unknown, name: string, problems: string[]): string[] | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+        return value;
+    }
+    problems.push(`${name} should be a list of text`);
+    return undefined;
+}
+
+function readCategories(value: unknown, name: string, problems: string[]): string[] | undefined {
+    const categories = readStrings(value, name, problems);
+    const unknown = categories?.filter(category => !(category in REVIEW_CATEGORIES)) ?? [];
+    if (unknown.length > 0) {
+        problems.push(`${name} has unknown categories ${unknown.join(', ')}`);
+    }
+    return categories?.filter(category => category in REVIEW_CATEGORIES);
+}
+
+function readSeverity(value: unknown, name: string, problems: string[]): Severity | undefined {
+    if (value === undefined || SEVERITY_ORDER.includes(value as Severity)) {
+        return value as Severity | undefined;
+    }
+    problems.push(`${name} should be one of ${SEVERITY_ORDER.join(', ')}`);
+    return undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matches(relativePath: string, globs: string[]): boolean {
+    return globs.some(glob => minimatch(relativePath, glob, { dot: true }));
+}
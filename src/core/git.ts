@@ -0,0 +1,356 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SimpleGit } from 'simple-git';
+import { ChangedFile, ChangedPath, LineRange, RepositoryState } from './types';
+
+/** Hash of Git's empty tree, used as the parent of root commits */
+export const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/** Revision of the staged version of a file, as in `git show :0:<path>` */
+export const INDEX_REVISION = ':0';
+
+/**
+ * Reads the changed files of one repository, with their old and new content and diff
+ */
+export class GitChangeReader {
+    /**
+     * @param excludedRoots Absolute paths of nested repositories and submodules, which report their own changes
+     */
+    constructor(private git: SimpleGit, private root: string, private excludedRoots: string[] = []) {}
+
+    /** Gets the uncommitted changes, including untracked files, optionally only for the given paths */
+    async getWorkingTreeChanges(paths?: string[]): Promise<ChangedFile[]> {
+        const status = await this.git.status(paths ? ['--', ...paths] : []);
+
+        // Get all changed paths (modified, new, renamed, deleted)
+        const changedPaths: ChangedPath[] = [
+            ...status.modified.map(file => ({ path: file, type: 'modify' as const })),
+            ...status.not_added.map(file => ({ path: file, type: 'add' as const })),
+            ...status.created.map(file => ({ path: file, type: 'add' as const })),
+            ...status.renamed.map(r => ({ path: r.to, oldPath: r.from, type: 'rename' as const })),
+            ...status.deleted.map(file => ({ path: file, type: 'delete' as const }))
+        ];
+
+        return this.loadChanges(this.removeDuplicatePaths(changedPaths), 'HEAD');
+    }
+
+    /** Gets the staged changes, with their new content read from the index */
+    async getStagedChanges(): Promise<ChangedFile[]> {
+        // Before the first commit everything staged is new
+        let head = EMPTY_TREE_HASH;
+        try {
+            head = (await this.git.raw(['rev-parse', '--verify', '--quiet', 'HEAD'])).trim() || EMPTY_TREE_HASH;
+        } catch (error) {
+            // Keep the empty tree
+        }
+
+        const nameStatus = await this.git.raw(['diff', '--cached', '--name-status', '-z', '-M', head]);
+        return this.loadChanges(this.parseNameStatus(nameStatus), head, INDEX_REVISION);
+    }
+
+    /** Lists the files below a directory, relative to the root, that Git tracks or would add */
+    async listFiles(directory: string): Promise<string[]> {
+        const output = await this.git.raw(['ls-files', '--cached', '--others', '--exclude-standard', '-z', '--', directory || '.']);
+        return output.split('\0').filter(Boolean);
+    }
+
+    /** Returns the commit the current branch forked from the base ref, or undefined when the ref is unknown */
+    async getMergeBase(baseRef: string): Promise<string | undefined> {
+        try {
+            return (await this.git.raw(['merge-base', 'HEAD', baseRef])).trim() || undefined;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /** Gets everything that changed since the given commit, including uncommitted work */
+    async getChangesSince(mergeBase: string): Promise<ChangedFile[]> {
+        // Diffing the merge base against the working tree covers commits and uncommitted changes
+        const nameStatus = await this.git.raw(['diff', '--name-status', '-z', '-M', mergeBase]);
+        const status = await this.git.status();
+
+        const changedPaths = [
+            ...this.parseNameStatus(nameStatus),
+            ...status.not_added.map(file => ({ path: file, type: 'add' as const }))
+        ];
+
+        return this.loadChanges(this.removeDuplicatePaths(changedPaths), mergeBase);
+    }
+
+    /** Gets the changes introduced by the commits from `oldestHash` up to and including `newestHash` */
+    async getCommitChanges(oldestHash: string, newestHash: string): Promise<ChangedFile[]> {
+        // Root commits have no parent, so diff them against the empty tree
+        let fromRef = EMPTY_TREE_HASH;
+        try {
+            fromRef = (await this.git.raw(['rev-parse', '--verify', '--quiet', `${oldestHash}^`])).trim() || EMPTY_TREE_HASH;
+        } catch (error) {
+            // Keep the empty tree
+        }
+
+        const nameStatus = await this.git.raw(['diff', '--name-status', '-z', '-M', fromRef, newestHash]);
+        return this.loadChanges(this.parseNameStatus(nameStatus), fromRef, newestHash);
+    }
+
+    /** Describes the checked-out commit, or returns undefined when the repository has no commits yet */
+    async getRepositoryState(name: string): Promise<RepositoryState | undefined> {
+        let head: string;
+        try {
+            head = (await this.git.revparse(['HEAD'])).trim();
+        } catch (error) {
+            return undefined;
+        }
+
+        const branch = (await this.git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+        let remoteUrl: string | undefined;
+        try {
+            remoteUrl = (await this.git.remote(['get-url', 'origin']))?.trim() || undefined;
+        } catch (error) {
+            // No origin remote
+        }
+
+        return { name, head, branch: branch === 'HEAD' ? undefined : branch, remoteUrl };
+    }
+
+    /** Parses the NUL-separated output of `git diff --name-status -z` */
+    private parseNameStatus(output: string): ChangedPath[] {
+        const changedPaths: ChangedPath[] = [];
+        const fields = output.split('\0').filter(field => field.length > 0);
+
+        for (let i = 0; i < fields.length; i++) {
+            const status = fields[i][0];
+
+            if (status === 'R' || status === 'C') {
+                const oldPath = fields[++i];
+                const newPath = fields[++i];
+                changedPaths.push(status === 'R'
+                    ? { path: newPath, oldPath, type: 'rename' }
+                    : { path: newPath, type: 'add' });
+            } else if (status === 'A') {
+                changedPaths.push({ path: fields[++i], type: 'add' });
+            } else if (status === 'D') {
+                changedPaths.push({ path: fields[++i], type: 'delete' });
+            } else {
+                changedPaths.push({ path: fields[++i], type: 'modify' });
+            }
+        }
+
+        return changedPaths;
+    }
+
+    private removeDuplicatePaths(changedPaths: ChangedPath[]): ChangedPath[] {
+        const seen = new Set<string>();
+        return changedPaths.filter(changedPath => {
+            if (seen.has(changedPath.path)) {
+                return false;
+            }
+            seen.add(changedPath.path);
+            return true;
+        });
+    }
+
+    /**
+     * Loads old and new content plus the diff of each changed path relative to the given ref.
+     * New content comes from `newRef` when given, which may be the index, otherwise from the working tree.
+     */
+    private async loadChanges(changedPaths: ChangedPath[], ref: string, newRef?: string): Promise<ChangedFile[]> {
+        const changes: ChangedFile[] = [];
+
+        for (const changedPath of changedPaths) {
+            // Nested repositories and submodules report their own changes
+            const fullPath = path.join(this.root, changedPath.path);
+            if (this.excludedRoots.some(root => fullPath === root || fullPath.startsWith(root + path.sep))) {
+                continue;
+            }
+
+            try {
+                changes.push(await this.loadChange(changedPath, ref, newRef));
+            } catch (error) {
+                // Skip files we can't read
+            }
+        }
+
+        return changes;
+    }
+
+    private async loadChange(changedPath: ChangedPath, ref: string, newRef?: string): Promise<ChangedFile> {
+        const refs = newRef === INDEX_REVISION ? ['--cached', ref] : newRef ? [ref, newRef] : [ref];
+        const filePath = changedPath.path;
+
+        if (changedPath.type === 'delete') {
+            return {
+                path: filePath,
+                oldContent: await this.git.show([`${ref}:${filePath}`]),
+                newContent: '',
+                diff: await this.git.diff([...refs, '--', filePath]),
+                type: 'delete'
+            };
+        }
+
+        const newContent = newRef
+            ? await this.git.show([`${newRef}:${filePath}`])
+            : await this.readFile(path.join(this.root, filePath));
+
+        if (changedPath.type === 'add') {
+            return { path: filePath, oldContent: null, newContent, diff: newContent, type: 'add' };
+        }
+
+        const oldPath = changedPath.oldPath ?? filePath;
+        try {
+            const pathspec = oldPath === filePath ? [oldPath] : [oldPath, filePath];
+            return {
+                path: filePath,
+                oldPath: changedPath.type === 'rename' ? oldPath : undefined,
+                oldContent: await this.git.show([`${ref}:${oldPath}`]),
+                newContent,
+                diff: await this.git.diff(['-M', ...refs, '--', ...pathspec]),
+                type: changedPath.type
+            };
+        } catch (error) {
+            // Without a previous version we can only treat the file as new
+            return { path: filePath, oldContent: null, newContent, diff: newContent, type: 'add' };
+        }
+    }
+
+    private async readFile(filePath: string): Promise<string> {
+        try {
+            return await fs.readFile(filePath, 'utf8');
+        } catch (error) {
+            return '';
+        }
+    }
+}
+
+/** Directories that are never searched for nested repositories */
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+/** Bounds on the search for nested repositories, so large workspaces don't stall it */
+export interface NestedRepositorySearch {
+    maxResults: number;
+    maxDepth: number;        // Directory levels below the root
+    maxDirectories: number;  // Directories read before the search gives up
+}
+
+/**
+ * Finds the directories below a root that hold a repository of their own: the submodules Git reports,
+ * plus nested repositories (a .git directory) and worktrees (a .git file) in the directories Git doesn't ignore
+ */
+export async function findNestedRepositories(git: SimpleGit, root: string, search: NestedRepositorySearch): Promise<string[]> {
+    const repositories = new Set(await listSubmodules(git, root));
+    const ignored = await listIgnoredDirectories(git, root);
+    const queue = [{ directory: root, depth: 0 }];
+    let visited = 0;
+
+    while (queue.length > 0 && repositories.size < search.maxResults && visited < search.maxDirectories) {
+        const { directory, depth } = queue.shift()!;
+        visited++;
+        let entries;
+        try {
+            entries = await fs.readdir(directory, { withFileTypes: true });
+        } catch (error) {
+            continue;
+        }
+
+        if (directory !== root && entries.some(entry => entry.name === '.git')) {
+            repositories.add(directory);
+        }
+        if (depth >= search.maxDepth) {
+            continue;
+        }
+        for (const entry of entries) {
+            const child = path.join(directory, entry.name);
+            if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name) && !ignored.has(child)) {
+                queue.push({ directory: child, depth: depth + 1 });
+            }
+        }
+    }
+
+    return [...repositories].slice(0, search.maxResults);
+}
+
+/** Lists the checked-out submodules below the root, or none when it isn't in a repository */
+async function listSubmodules(git: SimpleGit, root: string): Promise<string[]> {
+    let output: string;
+    try {
+        output = await git.raw(['submodule', 'status', '--recursive']);
+    } catch (error) {
+        return [];
+    }
+
+    // Each line is "<state><commit> <path> (<description>)", where the state "-" means not checked out
+    return output.split('\n').flatMap(line => {
+        const match = /^[ +U][0-9a-f]+ (.+?)(?: \(.*\))?$/.exec(line);
+        return match ? [path.resolve(root, match[1])] : [];
+    });
+}
+
+/** Lists the ignored directories below the root, which Git reports without their contents */
+async function listIgnoredDirectories(git: SimpleGit, root: string): Promise<Set<string>> {
+    let output: string;
+    try {
+        output = await git.raw(['ls-files', '--others', '--ignored', '--exclude-standard', '--directory', '-z']);
+    } catch (error) {
+        return new Set();
+    }
+    return new Set(output.split('\0').filter(entry => entry.endsWith('/')).map(entry => path.resolve(root, entry)));
+}
+
+/** Counts the added and removed lines of a unified diff */
+export function countChangedLines(diff: string): number {
+    let count = 0;
+    let inHunk = false;
+    for (const line of diff.split('\n')) {
+        if (line.startsWith('@@')) {
+            inHunk = true;
+        } else if (line.startsWith('diff ')) {
+            inHunk = false;
+        } else if (inHunk && (line.startsWith('+') || line.startsWith('-'))) {
+            count++;
+        }
+    }
+    return count;
+}
+
+/** Extracts the changed line ranges of the new file from a unified diff */
+export function parseChangedLineRanges(diff: string): LineRange[] {
+    const ranges: LineRange[] = [];
+    let currentLine = 0;
+    let inHunk = false;
+
+    for (const line of diff.split('\n')) {
+        const hunkHeader = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+        if (hunkHeader) {
+            inHunk = true;
+            currentLine = parseInt(hunkHeader[1], 10);
+
+            // Pure deletions have no new lines, so anchor them to the line where they happened
+            if (hunkHeader[2] === '0') {
+                addLineToRanges(ranges, Math.max(currentLine, 1));
+            }
+            continue;
+        }
+
+        if (!inHunk || line.startsWith('\\')) {
+            continue;
+        }
+
+        if (line.startsWith('+')) {
+            addLineToRanges(ranges, currentLine);
+            currentLine++;
+        } else if (line.startsWith(' ')) {
+            currentLine++;
+        } else if (!line.startsWith('-')) {
+            inHunk = false;
+        }
+    }
+
+    return ranges;
+}
+
+function addLineToRanges(ranges: LineRange[], line: number): void {
+    const last = ranges[ranges.length - 1];
+    if (last && line <= last.end + 1) {
+        last.end = Math.max(last.end, line);
+    } else {
+        ranges.push({ start: line, end: line });
+    }
+}
@@ -0,0 +1,220 @@
+import { CATEGORY_LABELS, SEVERITY_LABELS } from './report';
+import { ReviewHistoryEntry, ReviewHistoryFile, Severity, SEVERITY_ORDER } from './types';
+
+/** Category key for comments the model didn't tag */
+export const UNCATEGORIZED = 'uncategorized';
+
+/** Represents the review results of one repository on one day */
+export interface HistoryDay {
+    date: string;         // YYYY-MM-DD, in UTC
+    runs: number;
+    files: number;        // Reviewed files, counted once per run
+    severities: Record<Severity, number>;
+}
+
+/** Represents how one file fared across the runs that reviewed it */
+export interface FileHistory {
+    repository: string;
+    path: string;
+    comments: number;     // Comments across all runs
+    reviews: number;      // Runs that reviewed the file
+    recent: number[];     // Comments per run, oldest first, for the last `RECENT_RUNS` runs
+}
+
+/** Represents the review history added up for the dashboard */
+export interface HistorySummary {
+    runs: number;
+    comments: number;
+    since?: string;
+    repositories: Map<string, HistoryDay[]>;   // Oldest day first
+    categories: [string, number][];            // Most frequent first
+    files: FileHistory[];                      // Most comments first
+}
+
+/** Runs per file shown in the file trend */
+const RECENT_RUNS = 10;
+
+/** Days per repository shown in the trend chart */
+const TREND_DAYS = 30;
+
+/** Files listed as having the most comments */
+const MAX_LISTED_FILES = 20;
+
+/** Adds up history entries per repository and day, per category and per file */
+export function summarizeHistory(entries: ReviewHistoryEntry[]): HistorySummary {
+    const sorted = [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const repositories = new Map<string, Map<string, HistoryDay>>();
+    const categories = new Map<string, number>();
+    const files = new Map<string, FileHistory>();
+    let comments = 0;
+
+    for (const entry of sorted) {
+        const days = repositories.get(entry.repository) ?? new Map<string, HistoryDay>();
+        repositories.set(entry.repository, days);
+        const date = entry.timestamp.slice(0, 10);
+        const day = days.get(date) ?? { date, runs: 0, files: 0, severities: { error: 0, warning: 0, info: 0 } };
+        days.set(date, day);
+        day.runs++;
+        day.files += entry.files.length;
+
+        for (const file of entry.files) {
+            const fileComments = countComments(file);
+            comments += fileComments;
+            for (const severity of SEVERITY_ORDER) {
+                day.severities[severity] += file.severities[severity] ?? 0;
+            }
+            for (const [category, count] of Object.entries(file.categories)) {
+                categories.set(category, (categories.get(category) ?? 0) + count);
+            }
+
+            const key = `${entry.repository}\0${file.path}`;
+            const history = files.get(key) ?? { repository: entry.repository, path: file.path, comments: 0, reviews: 0, recent: [] };
+            files.set(key, history);
+            history.comments += fileComments;
+            history.reviews++;
+            history.recent = [...history.recent, fileComments].slice(-RECENT_RUNS);
+        }
+    }
+
+    return {
+        runs: sorted.length,
+        comments,
+        since: sorted[0]?.timestamp,
+        repositories: new Map([...repositories].map(([name, days]) => [name, [...days.values()].slice(-TREND_DAYS)])),
+        categories: [...categories].sort((a, b) => b[1] - a[1]),
+        files: [...files.values()]
+            .filter(file => file.comments > 0)
+            .sort((a, b) => b.comments - a.comments || a.path.localeCompare(b.path))
+            .slice(0, MAX_LISTED_FILES)
+    };
+}
+
+function countComments(file: ReviewHistoryFile): number {
+    return SEVERITY_ORDER.reduce((total, severity) => total + (file.severities[severity] ?? 0), 0);
+}
+
+/**
+ * Renders the review history as a self-contained page for the dashboard webview
+ */
+export class ReviewHistoryDashboard {
+    render(entries: ReviewHistoryEntry[], cspSource: string): string {
+        const summary = summarizeHistory(entries);
+        const body = summary.runs === 0
+            ? '<p>No reviews recorded yet. Run a review and come back to see how your code grows! 🌱</p>'
+            : [
+                `<p>${summary.runs} review run${summary.runs === 1 ? '' : 's'} with ${summary.comments} comment${summary.comments === 1 ? '' : 's'} since ${escapeHtml(summary.since!.slice(0, 10))}</p>`,
+                this.renderTrends(summary),
+                this.renderCategories(summary),
+                this.renderFiles(summary)
+            ].join('\n');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline';">
+<title>Pear Review History</title>
+<style>
+body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); max-width: 960px; padding: 0 1em; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; padding: 0.25em 1em 0.25em 0; }
+td.count { text-align: right; font-variant-numeric: tabular-nums; }
+.bar { height: 0.8em; background: var(--vscode-charts-blue); }
+.error { fill: var(--vscode-charts-red); }
+.warning { fill: var(--vscode-charts-yellow); }
+.info { fill: var(--vscode-charts-blue); }
+.spark { fill: none; stroke: var(--vscode-charts-foreground, currentColor); stroke-width: 1.5; }
+.legend span { margin-right: 1em; }
+.legend svg { vertical-align: middle; }
+.muted { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<h1>🍐 Review History</h1>
+${body}
+</body>
+</html>
+`;
+    }
+
+    /** Charts comments per reviewed file for each day, so more files reviewed don't look like worse code */
+    private renderTrends(summary: HistorySummary): string {
+        const legend = SEVERITY_ORDER.map(severity =>
+            `<span><svg width="10" height="10"><rect class="${severity}" width="10" height="10"/></svg> ${SEVERITY_LABELS[severity]}</span>`
+        ).join('');
+
+        const charts = [...summary.repositories].map(([repository, days]) => {
+            const perFile = (day: HistoryDay, severity: Severity) => day.severities[severity] / Math.max(day.files, 1);
+            const highest = Math.max(...days.map(day => SEVERITY_ORDER.reduce((total, severity) => total + perFile(day, severity), 0)), 1);
+            const width = 24;
+            const height = 120;
+            const bars = days.map((day, index) => {
+                let top = height;
+                const segments = SEVERITY_ORDER.map(severity => {
+                    const segmentHeight = perFile(day, severity) / highest * height;
+                    top -= segmentHeight;
+                    return `<rect class="${severity}" x="${index * width + 2}" y="${top.toFixed(1)}" width="${width - 4}" height="${segmentHeight.toFixed(1)}"/>`;
+                }).join('');
+                const comments = SEVERITY_ORDER.reduce((total, severity) => total + day.severities[severity], 0);
+                const tooltip = `${day.date}: ${comments} comments in ${day.files} reviewed files, ${day.runs} runs`;
+                return `<g><title>${escapeHtml(tooltip)}</title>${segments}</g>`;
+            }).join('');
+            const first = days[0].date;
+            const last = days[days.length - 1].date;
+            return `<h3>${escapeHtml(repository)}</h3>
+<svg width="${days.length * width}" height="${height}" role="img" aria-label="Comments per reviewed file by day">${bars}</svg>
+<p class="muted">${escapeHtml(first === last ? first : `${first} to ${last}`)}, up to ${highest.toFixed(1)} comments per file</p>`;
+        }).join('\n');
+
+        return `<h2>Comments per reviewed file</h2>\n<p class="legend">${legend}</p>\n${charts}`;
+    }
+
+    private renderCategories(summary: HistorySummary): string {
+        if (summary.categories.length === 0) {
+            return '';
+        }
+
+        const highest = summary.categories[0][1];
+        const rows = summary.categories.map(([category, count]) => {
+            const label = category === UNCATEGORIZED ? 'Uncategorized' : CATEGORY_LABELS[category] ?? category;
+            return `<tr><td>${escapeHtml(label)}</td><td class="count">${count}</td>` +
+                `<td width="50%"><div class="bar" style="width: ${(count / highest * 100).toFixed(1)}%"></div></td></tr>`;
+        }).join('\n');
+        return `<h2>Most frequent issues</h2>\n<table>\n${rows}\n</table>`;
+    }
+
+    /** Lists the files with the most comments, with a sparkline of their last runs */
+    private renderFiles(summary: HistorySummary): string {
+        if (summary.files.length === 0) {
+            return '';
+        }
+
+        const showRepository = summary.repositories.size > 1;
+        const rows = summary.files.map(file => {
+            const highest = Math.max(...file.recent, 1);
+            // A single review still gets a flat line
+            const recent = file.recent.length === 1 ? [file.recent[0], file.recent[0]] : file.recent;
+            const points = recent
+                .map((count, index) => `${(index / (recent.length - 1) * 80).toFixed(1)},${(18 - count / highest * 16).toFixed(1)}`)
+                .join(' ');
+            const repository = showRepository ? `<td class="muted">${escapeHtml(file.repository)}</td>` : '';
+            return `<tr><td>${escapeHtml(file.path)}</td>${repository}<td class="count">${file.comments}</td><td class="count">${file.reviews}</td>` +
+                `<td><svg width="80" height="20" role="img" aria-label="Comments in the last reviews: ${file.recent.join(', ')}">` +
+                `<polyline class="spark" points="${points}"/></svg></td></tr>`;
+        }).join('\n');
+        const repositoryHeader = showRepository ? '<th>Repository</th>' : '';
+        return `<h2>Files with the most comments</h2>
+<table>
+<tr><th>File</th>${repositoryHeader}<th>Comments</th><th>Reviews</th><th>Last ${RECENT_RUNS} reviews</th></tr>
+${rows}
+</table>`;
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
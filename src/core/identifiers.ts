@@ -0,0 +1,125 @@
+import { Identifier } from './types';
+
+/** Represents how a language writes comments and strings */
+interface LanguageSyntax {
+    lineComments: string[];
+    blockComment?: [string, string];
+    quotes: string[];           // Longest first, e.g. """ before "
+    multiLineQuotes: string[];  // Quotes whose strings may span lines
+}
+
+const C_SYNTAX: LanguageSyntax = {
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    multiLineQuotes: ['`']
+};
+
+const HASH_SYNTAX: LanguageSyntax = {
+    lineComments: ['#'],
+    quotes: ['"""', "'''", '"', "'"],
+    multiLineQuotes: ['"""', "'''"]
+};
+
+/** Syntax by VS Code language id; other languages are scanned as C-like */
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+    'python': HASH_SYNTAX,
+    'ruby': HASH_SYNTAX,
+    'shellscript': HASH_SYNTAX,
+    'perl': HASH_SYNTAX,
+    'r': HASH_SYNTAX,
+    'yaml': HASH_SYNTAX,
+    'powershell': { ...HASH_SYNTAX, blockComment: ['<#', '#>'] },
+    'sql': { lineComments: ['--'], blockComment: ['/*', '*/'], quotes: ["'", '"'], multiLineQuotes: [] },
+    'lua': { lineComments: ['--'], quotes: ['"', "'"], multiLineQuotes: [] },
+    // Single quotes also start lifetimes
+    'rust': { ...C_SYNTAX, quotes: ['"'], multiLineQuotes: [] },
+    'php': { ...C_SYNTAX, lineComments: ['//', '#'] }
+};
+
+/** Keywords and literals of the common languages, which have no definition to look up */
+const KEYWORDS = new Set([
+    'abstract', 'and', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default',
+    'defer', 'del', 'delete', 'do', 'elif', 'else', 'end', 'enum', 'except', 'export', 'extends', 'false', 'final',
+    'finally', 'fn', 'for', 'from', 'func', 'function', 'go', 'if', 'impl', 'implements', 'import', 'in', 'instanceof',
+    'interface', 'is', 'lambda', 'let', 'loop', 'match', 'mod', 'module', 'mut', 'namespace', 'new', 'nil', 'None', 'not',
+    'null', 'of', 'or', 'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise', 'readonly', 'return', 'self',
+    'static', 'struct', 'super', 'switch', 'this', 'throw', 'throws', 'trait', 'True', 'False', 'true', 'try', 'type',
+    'typeof', 'undefined', 'use', 'var', 'void', 'while', 'with', 'yield'
+]);
+
+/**
+ * Finds the identifiers in a file, leaving out keywords and the words in comments and strings.
+ * The whole file is scanned, so comments and strings spanning lines are recognized on every line.
+ */
+export function findIdentifiers(lines: string[], languageId: string): Identifier[] {
+    const syntax = LANGUAGE_SYNTAX[languageId] ?? C_SYNTAX;
+    const identifiers: Identifier[] = [];
+    let closing: string | undefined;  // End of the block comment or multi-line string the line starts in
+
+    lines.forEach((text, line) => {
+        let character = 0;
+        const startsWith = (token: string) => text.startsWith(token, character);
+
+        while (character < text.length) {
+            if (closing) {
+                const end = syntax.multiLineQuotes.includes(closing)
+                    ? findClosingQuote(text, character, closing)
+                    : text.indexOf(closing, character);
+                if (end < 0) {
+                    break;
+                }
+                character = end + closing.length;
+                closing = undefined;
+                continue;
+            }
+
+            if (syntax.lineComments.some(startsWith)) {
+                break;
+            }
+            if (syntax.blockComment && startsWith(syntax.blockComment[0])) {
+                character += syntax.blockComment[0].length;
+                closing = syntax.blockComment[1];
+                continue;
+            }
+
+            const quote = syntax.quotes.find(startsWith);
+            if (quote) {
+                const end = findClosingQuote(text, character + quote.length, quote);
+                if (end >= 0) {
+                    character = end + quote.length;
+                } else {
+                    // Other strings end with their line, also when unterminated
+                    closing = syntax.multiLineQuotes.includes(quote) ? quote : undefined;
+                    break;
+                }
+                continue;
+            }
+
+            const word = /^[A-Za-z_$][\w$]*|^[\w$]+/.exec(text.slice(character))?.[0];
+            if (word) {
+                // Numbers like 0x1f are words too, but start with a digit
+                if (!/^\d/.test(word) && !KEYWORDS.has(word)) {
+                    identifiers.push({ name: word, line, character });
+                }
+                character += word.length;
+            } else {
+                character++;
+            }
+        }
+    });
+
+    return identifiers;
+}
+
+/** Returns where the quote closing a string starts, skipping escaped characters, or -1 when it isn't on the line */
+function findClosingQuote(text: string, from: number, quote: string): number {
+    for (let character = from; character < text.length; character++) {
+        if (text[character] === '\\') {
+            character++;
+        } else if (text.startsWith(quote, character)) {
+            return character;
+        }
+    }
+    return -1;
+}
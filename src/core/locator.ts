@@ -0,0 +1,121 @@
+import { TextLocation } from './types';
+
+/** Lines above and below the reported line searched for a comment's code */
+const ANCHOR_SEARCH_RADIUS = 5;
+
+/**
+ * Finds a review's code in a file, tolerating whitespace differences and line numbers that are a little off
+ */
+export class CodeLocator {
+    /**
+     * Looks on the reported line first, then on lines ever further away.
+     * Falls back to the whole reported line when the code isn't found nearby.
+     */
+    locate(lines: string[], line: number, code: string): TextLocation | null {
+        const reportedLine = line - 1;
+        const lastLine = lines.length - 1;
+        if (reportedLine < 0 || reportedLine > lastLine + ANCHOR_SEARCH_RADIUS) {
+            return null;
+        }
+
+        const snippetLines = code.split(/\r?\n/).map(text => this.stripWhitespace(text)).filter(text => text.length > 0);
+        if (snippetLines.length > 0) {
+            for (const offset of this.getSearchOffsets()) {
+                const startLine = reportedLine + offset;
+                if (startLine < 0 || startLine > lastLine) {
+                    continue;
+                }
+
+                const location = snippetLines.length === 1
+                    ? this.matchLine(lines, startLine, code)
+                    : this.matchLines(lines, startLine, snippetLines);
+                if (location) {
+                    return { ...location, confidence: offset === 0 ? 'exact' : 'nearby' };
+                }
+            }
+        }
+
+        if (reportedLine > lastLine) {
+            return null;
+        }
+
+        const text = lines[reportedLine];
+        return {
+            startLine: reportedLine,
+            startCharacter: text.length - text.trimStart().length,
+            endLine: reportedLine,
+            endCharacter: text.length,
+            confidence: 'line'
+        };
+    }
+
+    /** 0, -1, 1, -2, 2, ... up to the search radius */
+    private getSearchOffsets(): number[] {
+        const offsets = [0];
+        for (let distance = 1; distance <= ANCHOR_SEARCH_RADIUS; distance++) {
+            offsets.push(-distance, distance);
+        }
+        return offsets;
+    }
+
+    private matchLine(lines: string[], lineNumber: number, code: string): Omit<TextLocation, 'confidence'> | null {
+        const text = lines[lineNumber];
+        const exactStart = text.indexOf(code);
+        if (exactStart !== -1) {
+            return { startLine: lineNumber, startCharacter: exactStart, endLine: lineNumber, endCharacter: exactStart + code.length };
+        }
+
+        const span = this.findIgnoringWhitespace(text, this.stripWhitespace(code));
+        return span && { startLine: lineNumber, startCharacter: span.start, endLine: lineNumber, endCharacter: span.end };
+    }
+
+    /**
+     * Matches a multi-line snippet against the non-blank lines from `startLine` on.
+     * The first and last lines may be partial, the ones in between must match completely.
+     */
+    private matchLines(lines: string[], startLine: number, snippetLines: string[]): Omit<TextLocation, 'confidence'> | null {
+        const lineNumbers: number[] = [];
+        for (let lineNumber = startLine; lineNumber < lines.length && lineNumbers.length < snippetLines.length; lineNumber++) {
+            if (lines[lineNumber].trim()) {
+                lineNumbers.push(lineNumber);
+            }
+        }
+        if (lineNumbers.length < snippetLines.length || lineNumbers[0] !== startLine) {
+            return null;
+        }
+
+        const first = lineNumbers[0];
+        const last = lineNumbers[lineNumbers.length - 1];
+        const firstSpan = this.findIgnoringWhitespace(lines[first], snippetLines[0]);
+        const lastSpan = this.findIgnoringWhitespace(lines[last], snippetLines[snippetLines.length - 1]);
+        const middleMatches = lineNumbers.slice(1, -1)
+            .every((lineNumber, index) => this.stripWhitespace(lines[lineNumber]) === snippetLines[index + 1]);
+
+        if (!firstSpan || !lastSpan || !middleMatches) {
+            return null;
+        }
+        return { startLine: first, startCharacter: firstSpan.start, endLine: last, endCharacter: lastSpan.end };
+    }
+
+    /** Finds a whitespace-free needle in a text, returning the span it covers in the original text */
+    private findIgnoringWhitespace(text: string, needle: string): { start: number; end: number } | null {
+        let stripped = '';
+        const originalIndexes: number[] = [];
+        for (let index = 0; index < text.length; index++) {
+            if (!/\s/.test(text[index])) {
+                stripped += text[index];
+                originalIndexes.push(index);
+            }
+        }
+
+        const start = needle ? stripped.indexOf(needle) : -1;
+        if (start === -1) {
+            return null;
+        }
+        return { start: originalIndexes[start], end: originalIndexes[start + needle.length - 1] + 1 };
+    }
+
+    private stripWhitespace(text: string): string {
+        return text.replace(/\s+/g, '');
+    }
+}
@@ -0,0 +1,113 @@
+import { CancellationSignal, ReviewModelProvider } from './types';
+
+/**
+ * Error raised when a model server answers with an unsuccessful HTTP status
+ */
+export class ModelRequestError extends Error {
+    constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'ModelRequestError';
+    }
+}
+
+/**
+ * Runs reviews on an OpenAI-compatible HTTP server (e.g. Ollama or llama.cpp)
+ */
+export class OpenAICompatibleModelProvider implements ReviewModelProvider {
+    private readonly AVAILABILITY_TIMEOUT = 5000;
+    readonly name: string;
+
+    constructor(private endpoint: string, private model: string, private apiKey?: string) {
+        this.endpoint = endpoint.replace(/\/+$/, '');
+        this.name = `${model} at ${this.endpoint}`;
+    }
+
+    async isAvailable(): Promise<boolean> {
+        if (!this.model) {
+            return false;
+        }
+        try {
+            const response = await fetch(`${this.endpoint}/models`, {
+                headers: this.getHeaders(),
+                signal: AbortSignal.timeout(this.AVAILABILITY_TIMEOUT)
+            });
+            return response.ok;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    async sendPrompt(prompt: string, token: CancellationSignal): Promise<AsyncIterable<string>> {
+        const abortController = new AbortController();
+        const cancellation = token.onCancellationRequested(() => abortController.abort());
+
+        try {
+            const response = await fetch(`${this.endpoint}/chat/completions`, {
+                method: 'POST',
+                headers: { ...this.getHeaders(), 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model: this.model,
+                    messages: [{ role: 'user', content: prompt }],
+                    stream: true
+                }),
+                signal: abortController.signal
+            });
+
+            if (!response.ok || !response.body) {
+                cancellation.dispose();
+                const retryAfter = Number(response.headers.get('retry-after'));
+                throw new ModelRequestError(
+                    `${this.name} answered with HTTP ${response.status}`,
+                    response.status,
+                    retryAfter > 0 ? retryAfter * 1000 : undefined
+                );
+            }
+
+            return this.readEventStream(response.body, cancellation);
+        } catch (error) {
+            cancellation.dispose();
+            throw error;
+        }
+    }
+
+    /** Yields the content deltas of a server-sent event stream */
+    private async *readEventStream(body: AsyncIterable<Uint8Array>, cancellation: { dispose(): void }): AsyncIterable<string> {
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        try {
+            for await (const chunk of body) {
+                buffer += decoder.decode(chunk, { stream: true });
+                const events = buffer.split('\n');
+                buffer = events.pop() ?? '';
+
+                for (const event of events) {
+                    const data = event.trim();
+                    if (!data.startsWith('data:')) {
+                        continue;
+                    }
+
+                    const payload = data.slice('data:'.length).trim();
+                    if (payload === '[DONE]') {
+                        return;
+                    }
+
+                    try {
+                        const content = JSON.parse(payload).choices?.[0]?.delta?.content;
+                        if (typeof content === 'string') {
+                            yield content;
+                        }
+                    } catch (error) {
+                        continue;
+                    }
+                }
+            }
+        } finally {
+            cancellation.dispose();
+        }
+    }
+
+    private getHeaders(): Record<string, string> {
+        return this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {};
+    }
+}
@@ -0,0 +1,157 @@
+import { REVIEW_CATEGORIES } from './prompts';
+import { ParsedReviewResponse, ReviewItem, ReviewLogger, ReviewSuggestion, Severity, SEVERITY_ORDER } from './types';
+
+/**
+ * Splits streamed model output into top-level JSON objects, whether it arrives as JSON Lines,
+ * a JSON array or inside a Markdown code fence
+ */
+export class JsonObjectScanner {
+    private buffer = '';
+    private depth = 0;
+    private inString = false;
+    private escaped = false;
+    private strayText = '';
+
+    /** Adds a chunk of output and returns the objects it completed */
+    push(chunk: string): string[] {
+        const objects: string[] = [];
+
+        for (const char of chunk) {
+            if (this.depth === 0) {
+                if (char === '{') {
+                    this.depth = 1;
+                    this.buffer = char;
+                } else if (!'[],'.includes(char)) {
+                    this.strayText += char;
+                }
+                continue;
+            }
+
+            this.buffer += char;
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === '\\') {
+                    this.escaped = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                }
+            } else if (char === '"') {
+                this.inString = true;
+            } else if (char === '{') {
+                this.depth++;
+            } else if (char === '}' && --this.depth === 0) {
+                objects.push(this.buffer);
+                this.buffer = '';
+            }
+        }
+
+        return objects;
+    }
+
+    /** Returns an object left open when the output ended, and any text found between objects */
+    finish(): { incomplete?: string; strayText: string } {
+        return {
+            incomplete: this.depth > 0 ? this.buffer : undefined,
+            strayText: this.strayText.replace(/```(json)?/g, '').replace(/\s+/g, ' ').trim()
+        };
+    }
+}
+
+/** Parses JSON Lines or a JSON array as it streams in, validating each item against the review schema */
+export async function parseReviewResponse(response: AsyncIterable<string>, log: ReviewLogger): Promise<ParsedReviewResponse> {
+    const scanner = new JsonObjectScanner();
+    const result: ParsedReviewResponse = { items: [], rejected: [] };
+
+    const addObject = (text: string) => {
+        let value: unknown;
+        try {
+            value = JSON.parse(text);
+        } catch (error) {
+            result.rejected.push({ text, reason: `invalid JSON (${error instanceof Error ? error.message : error})` });
+            return;
+        }
+
+        const validation = validateReviewItem(value);
+        if (typeof validation === 'string') {
+            result.rejected.push({ text, reason: validation });
+        } else {
+            result.items.push(validation);
+        }
+    };
+
+    for await (const chunk of response) {
+        scanner.push(chunk).forEach(addObject);
+    }
+
+    const { incomplete, strayText } = scanner.finish();
+    if (incomplete) {
+        result.rejected.push({ text: incomplete, reason: 'incomplete JSON object' });
+    }
+    if (strayText) {
+        log.debug(`Ignored text outside JSON objects: ${strayText}`);
+    }
+
+    return result;
+}
+
+/** Returns the item when it matches the review schema, or the reason it doesn't */
+export function validateReviewItem(value: unknown): ReviewItem | string {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return 'not a JSON object';
+    }
+
+    const item = value as Record<string, unknown>;
+    if (typeof item.line !== 'number' || !Number.isInteger(item.line) || item.line < 1) {
+        return '"line" must be a positive whole number';
+    }
+    if (typeof item.code !== 'string' || !item.code.trim()) {
+        return '"code" must be a non-empty string';
+    }
+    if (typeof item.message !== 'string' || !item.message.trim()) {
+        return '"message" must be a non-empty string';
+    }
+    if (!SEVERITY_ORDER.includes(item.severity as Severity)) {
+        return `"severity" must be one of ${SEVERITY_ORDER.join(', ')}`;
+    }
+    if (item.suggestions !== undefined && !Array.isArray(item.suggestions)) {
+        return '"suggestions" must be an array';
+    }
+    if (item.praise !== undefined && typeof item.praise !== 'string') {
+        return '"praise" must be a string';
+    }
+    if (item.category !== undefined && typeof item.category !== 'string') {
+        return '"category" must be a string';
+    }
+
+    return {
+        line: item.line,
+        code: item.code,
+        message: item.message,
+        severity: item.severity as Severity,
+        category: normalizeCategory(item.category),
+        suggestions: normalizeSuggestions(item.suggestions),
+        praise: item.praise || undefined
+    };
+}
+
+/** Accepts the category names models tend to write, like "Error Handling"; unknown ones are left out */
+function normalizeCategory(category: unknown): string | undefined {
+    if (typeof category !== 'string') {
+        return undefined;
+    }
+    const key = category.trim().toLowerCase().replace(/[\s_]+/g, '-');
+    return key in REVIEW_CATEGORIES ? key : undefined;
+}
+
+function normalizeSuggestions(suggestions: unknown): ReviewSuggestion[] {
+    if (!Array.isArray(suggestions)) {
+        return [];
+    }
+    return suggestions.filter((suggestion): suggestion is ReviewSuggestion =>
+        suggestion !== null &&
+        typeof suggestion === 'object' &&
+        typeof suggestion.description === 'string' &&
+        typeof suggestion.code === 'string'
+    );
+}
@@ -0,0 +1,302 @@
+import { LineRange, RelatedCode, ReviewPersona, ReviewPolicy } from './types';
+
+/** Collection of friendly messages used by the Pear */
+const PEAR_MESSAGES = {
+    praise: [
+        "This part is looking pear-fectly structured! 🌟",
+        "Ooh, loving this clean code approach! ✨",
+        "You've really planted some great ideas here! 🌱",
+        "This solution is ripe with potential! 🍐"
+    ]
+};
+
+const CHANGE_SCOPE_PROMPT = `Only part of this file is shown: the changed lines listed under "Changed lines", plus a few surrounding lines for context.
+Only comment on the changed lines. Use the surrounding lines to understand the change, but don't review them.
+Gaps between the shown sections are marked with "...".`;
+
+/** Review categories a project can enable, with the checklist line each adds to the prompt */
+export const REVIEW_CATEGORIES: Record<string, string> = {
+    'readability': 'Code readability: Clear naming and structure (like a well-organized fruit basket!)',
+    'maintainability': 'Maintainability: Making sure the code stays fresh and healthy',
+    'efficiency': 'Efficiency: Helping the code run as smoothly as ripe fruit',
+    'security': 'Security: Keeping the code safe and protected',
+    'error-handling': 'Error handling: Preparing for unexpected bumps in the road',
+    'testing': "Testing: Making sure everything's as sweet as it should be",
+    'documentation': 'Documentation: Leaving helpful notes for future gardeners',
+    'style': 'Style: Keeping everything neat and tidy',
+    'version-control': 'Version control: Maintaining a clear growth history'
+};
+
+export const FOLLOW_UP_PROMPT = `Earlier you left a review comment on the file below, and the developer has replied with a follow-up.
+Answer their latest message directly, in the context of the file and your comment.
+Reply in plain Markdown, not JSON. Keep it focused and short, and include code only when it helps.`;
+
+/** Output format appended to every persona's instructions */
+const REVIEW_FORMAT_PROMPT = `Respond with JSON Lines: one JSON object per review item, each on a single line,
+and nothing else (no Markdown, no code fences, no text around the objects). Respond with nothing at all when there is nothing to comment on.
+Each object must follow this format:
+{
+    "line": number,        // 1-based line number of the code in the file
+    "code": string,        // The specific problematic code, copied exactly; may span several lines
+    "message": string,     // Explanation of the issue, in your voice
+    "severity": "error" | "warning" | "info",
+    "category": ${Object.keys(REVIEW_CATEGORIES).map(category => `"${category}"`).join(' | ')},  // The checklist item the issue falls under
+    "suggestions": [       // Array of specific code fixes
+        {
+            "description": string,  // What this fix does
+            "code": string          // The actual code to replace with
+        }
+    ],
+    "praise": string      // Something positive about the code (optional)
+}`;
+
+/** Follows the original review prompt when some items of the response were malformed */
+export const REPAIR_PROMPT = `Some items in your previous response didn't follow the required format and were discarded.
+Resend corrected versions of only these items, as JSON Lines in the format above, with nothing else in the response.
+The discarded items and what was wrong with them:`;
+
+const PEAR_VOICE = 'You are the Friendly Neighborhood Pear (🍐), a kind and empathetic code review assistant.';
+
+export const CUSTOM_PERSONA_VOICE = 'You are a code reviewer.';
+
+export const CUSTOM_PERSONA_PRAISE = ['No issues found in the reviewed code.'];
+
+export const BUILT_IN_PERSONAS: ReviewPersona[] = [
+    {
+        id: 'pear',
+        label: 'Friendly Pear',
+        description: 'Warm, encouraging and fond of fruit puns',
+        voice: PEAR_VOICE,
+        template: `${PEAR_VOICE}
+Your personality is warm, supportive, and encouraging. You love helping developers grow and improve their code.
+
+When reviewing code, use these severity levels with empathy:
+- error: For critical issues, explained gently but clearly
+- warning: For suggestions to help the code grow better
+- info: For friendly tips and best practices
+
+Remember to:
+- Always start with praise for what's done well
+- Be encouraging and supportive while pointing out improvements
+- Use friendly, fruit-themed metaphors when appropriate
+- Explain WHY changes help, not just WHAT to change
+- Keep the tone warm and positive
+
+Check for:
+{{categories}}
+
+Remember to:
+1. Error:   "Critical issues that need immediate attention"
+2. Warning: "Suggestions for improvement"
+3. Info:    "Friendly tips and best practices"
+
+Always be encouraging and supportive!`,
+        praise: PEAR_MESSAGES.praise
+    },
+    {
+        id: 'senior',
+        label: 'Senior Engineer',
+        description: 'Concise and direct, no small talk',
+        voice: 'You are a senior software engineer reviewing a colleague\'s code.',
+        template: `You are a senior software engineer reviewing a colleague's code.
+Be concise and direct: one or two sentences per comment, no filler, no jokes or metaphors, and no praise for its own sake.
+
+Severity levels:
+- error: Bugs, data loss, security holes, or anything that must be fixed before merging
+- warning: Design, maintainability or performance problems worth fixing
+- info: Minor improvements, only when clearly worthwhile
+
+Check for:
+{{categories}}
+
+Skip nitpicks a formatter or linter would catch, and don't comment on code that is fine.`,
+        praise: ['No issues found.']
+    },
+    {
+        id: 'security',
+        label: 'Security Auditor',
+        description: 'Strict, focused on vulnerabilities',
+        voice: 'You are a strict application security auditor reviewing code before release.',
+        template: `You are a strict application security auditor reviewing code before release.
+Treat every external input as hostile. Look for injection, broken authentication and authorization, secrets in code,
+unsafe deserialization, path traversal, weak cryptography, missing input validation and exposure of sensitive data.
+For each finding, name the weakness (with its CWE ID when there is one), explain how it could be exploited, and give the fix.
+Be precise and formal, and don't soften findings.
+
+Severity levels:
+- error: Exploitable vulnerabilities
+- warning: Weaknesses that become exploitable under plausible conditions, or missing defense in depth
+- info: Hardening recommendations
+
+Also check for:
+{{categories}}
+
+Don't comment on style unless it hides a security problem.`,
+        praise: ['No security issues found in the reviewed code.']
+    },
+    {
+        id: 'teacher',
+        label: 'Teacher',
+        description: 'Explains the why, for junior developers',
+        voice: 'You are a patient mentor reviewing code written by a junior developer.',
+        template: `You are a patient mentor reviewing code written by a junior developer.
+Your goal is to help them learn. For every comment, explain the underlying concept and why it matters, not just what to change,
+and connect it to a general principle they can apply elsewhere. Point out what they did well using the "praise" field.
+Use plain language, and explain any jargon you need.
+
+Severity levels:
+- error: Mistakes that break the code or could cause real harm, with a clear explanation of what goes wrong
+- warning: Habits worth changing, with the reasoning behind the better approach
+- info: Tips and good practices to learn from
+
+Check for:
+{{categories}}`,
+        praise: ['Nice work! I found nothing to improve this time. Keep it up!']
+    }
+];
+
+/** Represents the file a review prompt is built for */
+export interface PromptFile {
+    filePath: string;     // Path shown to the model
+    language: string;
+    diff?: string;
+    context?: string;     // Extra background for the model, e.g. commit details
+    relatedCode?: string; // Code from other files, see `formatRelatedCode`
+}
+
+/** Fills in {{name}} placeholders; unknown placeholders are left as they are */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/** Combines the persona's instructions, the output format, the team's rules and one chunk of code */
+export function buildReviewPrompt(
+    persona: ReviewPersona,
+    file: PromptFile,
+    code: string,
+    policy: ReviewPolicy,
+    isChangeScoped: boolean
+): string {
+    const instructions = renderTemplate(persona.template, {
+        filePath: file.filePath,
+        language: file.language,
+        diff: file.diff || 'No diff available.',
+        categories: policy.categories.map(category => `- ${REVIEW_CATEGORIES[category]}`).join('\n')
+    });
+    const guidelines = policy.guidelines.length
+        ? `\n\nFollow these team guidelines, they take precedence over the checklist above:\n${policy.guidelines.join('\n\n')}`
+        : '';
+    const scopeInstructions = isChangeScoped ? `\n\n${CHANGE_SCOPE_PROMPT}` : '';
+    const fileContext = file.context ? `\n\n${file.context}` : '';
+    const relatedCode = file.relatedCode ? `\n\n${file.relatedCode}` : '';
+    return `${instructions}\n\n${REVIEW_FORMAT_PROMPT}${guidelines}${scopeInstructions}${fileContext}${relatedCode}` +
+        `\n\nFile to review:\n--- ${file.filePath} ---\n${code}`;
+}
+
+/**
+ * Lists code from other files for the prompt, in the given order of priority, until `tokenBudget` is spent.
+ * The section starts by saying what it includes, so the model knows what it can and can't see.
+ */
+export function formatRelatedCode(related: RelatedCode[], tokenBudget: number): { text: string; included: RelatedCode[] } {
+    const included: RelatedCode[] = [];
+    const snippets: string[] = [];
+    let tokensUsed = 0;
+    for (const item of related) {
+        const label = item.kind === 'definition' ? `Definition of \`${item.symbol}\`` : `Call site of \`${item.symbol}\``;
+        const snippet = `--- ${label}, ${item.filePath}:${item.line} ---\n${item.code}`;
+        const tokens = estimateTokens(snippet);
+        if (tokensUsed + tokens > tokenBudget) {
+            continue;
+        }
+        tokensUsed += tokens;
+        included.push(item);
+        snippets.push(snippet);
+    }
+    if (included.length === 0) {
+        return { text: '', included };
+    }
+
+    const summary: string[] = [];
+    const definitions = [...new Set(included.filter(item => item.kind === 'definition').map(item => `\`${item.symbol}\``))];
+    const callers = [...new Set(included.filter(item => item.kind === 'caller').map(item => `\`${item.symbol}\``))];
+    if (definitions.length > 0) {
+        summary.push(`the definitions of ${definitions.join(', ')}`);
+    }
+    if (callers.length > 0) {
+        summary.push(`code in other files that calls ${callers.join(', ')}`);
+    }
+    const omitted = related.length - included.length;
+    const omittedNote = omitted === 1 ? ' One more snippet was left out to save space.'
+        : omitted > 1 ? ` ${omitted} more snippets were left out to save space.` : '';
+    const text = `Related code from other files, for reference only: ${summary.join(' and ')}.${omittedNote}\n` +
+        `Use it to check how the file under review uses its dependencies and whether its changes break callers. ` +
+        `Don't review this code itself; line numbers in your review always refer to the file under review.\n\n` +
+        snippets.join('\n\n');
+    return { text, included };
+}
+
+/**
+ * Numbers the code to review and splits it into chunks of at most `maxLines` lines.
+ * With changed ranges, only the changed hunks and `contextLines` lines around them are kept.
+ */
+export function prepareCodeChunks(
+    content: string,
+    fileExtension: string,
+    changedRanges?: LineRange[],
+    maxLines: number = Infinity,
+    contextLines: number = 3
+): string[] {
+    const lines = content.split('\n');
+
+    let header = `File extension: ${fileExtension}\nTotal lines: ${lines.length}\n`;
+    if (changedRanges) {
+        const formattedRanges = changedRanges.map(range =>
+            range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`
+        );
+        header += `Changed lines: ${formattedRanges.join(', ')}\n`;
+    }
+
+    const numberedLines = getNumberedLines(lines, changedRanges, contextLines);
+    const chunkCount = Math.max(1, Math.ceil(numberedLines.length / Math.max(maxLines, 1)));
+    if (chunkCount === 1) {
+        return [`${header}\n${numberedLines.join('\n')}\n`];
+    }
+
+    const chunks: string[] = [];
+    for (let i = 0; i < chunkCount; i++) {
+        const chunkLines = numberedLines.slice(i * maxLines, (i + 1) * maxLines);
+        chunks.push(`${header}Part ${i + 1} of ${chunkCount}. The other parts are reviewed separately.\n\n${chunkLines.join('\n')}\n`);
+    }
+    return chunks;
+}
+
+/** Prefixes lines with their number, keeping only changed hunks and their context when ranges are given */
+function getNumberedLines(lines: string[], changedRanges: LineRange[] | undefined, contextLines: number): string[] {
+    if (!changedRanges) {
+        return lines.map((line, index) => `${index + 1}: ${line}`);
+    }
+
+    const numberedLines: string[] = [];
+    let lastLine = 0;
+    for (const range of changedRanges) {
+        const start = Math.max(range.start - contextLines, lastLine + 1, 1);
+        const end = Math.min(range.end + contextLines, lines.length);
+        if (start > end) {
+            continue;
+        }
+        if (lastLine > 0 && start > lastLine + 1) {
+            numberedLines.push('...');
+        }
+        for (let lineNumber = start; lineNumber <= end; lineNumber++) {
+            numberedLines.push(`${lineNumber}: ${lines[lineNumber - 1]}`);
+        }
+        lastLine = end;
+    }
+
+    return numberedLines;
+}
+
+/** Rough token count, good enough for budgeting (about four characters per token) */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
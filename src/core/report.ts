@@ -0,0 +1,271 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { REVIEW_CATEGORIES } from './prompts';
+import { ReportComment, ReportFormat, ReportMetadata, Severity, SEVERITY_ORDER } from './types';
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+    'error': 'Errors',
+    'warning': 'Warnings',
+    'info': 'Tips'
+};
+
+/** Short names of the review categories, for grouping and labels, e.g. "Error Handling" */
+export const CATEGORY_LABELS: Record<string, string> = Object.fromEntries(Object.keys(REVIEW_CATEGORIES).map(category => [
+    category,
+    category.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join(' ')
+]));
+
+const README_URL = 'https://github.com/scarowar/pear-review';
+
+/** Links to the README's description of a review category */
+export function getCategoryDocsUrl(category: string): string {
+    return `${README_URL}#category-${category}`;
+}
+
+/** Singular severity names used as headings in exported reports */
+const REPORT_SEVERITY_LABELS: Record<Severity, string> = {
+    'error': 'Error',
+    'warning': 'Warning',
+    'info': 'Tip'
+};
+
+export const REPORT_FORMATS: Record<ReportFormat, { label: string; description: string; extension: string }> = {
+    'markdown': { label: 'Markdown', description: 'For pull request descriptions', extension: 'md' },
+    'html': { label: 'HTML', description: 'A self-contained page', extension: 'html' },
+    'json': { label: 'JSON', description: 'Raw comments and run metadata', extension: 'json' },
+    'sarif': { label: 'SARIF 2.1.0', description: 'For code scanning tools', extension: 'sarif' }
+};
+
+/** Rule for comments without a category; categorized comments use `pear-review/<category>` */
+const SARIF_RULE_ID = 'pear-review/comment';
+
+/**
+ * Renders review comments as reports to share outside the editor
+ */
+/** Wraps code in a Markdown fence longer than any backtick run inside it */
+export function fenceCode(code: string, language = ''): string {
+    const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longestRun + 1);
+    return `${fence}${language}\n${code}\n${fence}`;
+}
+
+export class ReviewReportExporter {
+    render(format: ReportFormat, reviews: ReportComment[], metadata: ReportMetadata): string {
+        switch (format) {
+            case 'markdown':
+                return this.toMarkdown(reviews, metadata);
+            case 'html':
+                return this.toHtml(reviews, metadata);
+            case 'json':
+                return JSON.stringify({ metadata, comments: reviews.map(({ relativePath, ...comment }) => comment) }, null, 2);
+            case 'sarif':
+                return JSON.stringify(this.toSarif(reviews, metadata), null, 2);
+        }
+    }
+
+    private toMarkdown(reviews: ReportComment[], metadata: ReportMetadata): string {
+        const lines = ['# 🍐 Pear Review', '', '| | |', '| --- | --- |'];
+        for (const [label, value] of this.describeMetadata(metadata)) {
+            lines.push(`| ${label} | ${value.replace(/\|/g, '\\|')} |`);
+        }
+        lines.push('', `**${this.summarize(reviews)}**`);
+
+        for (const [filePath, fileReviews] of this.groupByFile(reviews)) {
+            lines.push('', `## ${filePath}`);
+            for (const review of fileReviews) {
+                const language = path.extname(filePath).slice(1);
+                lines.push('', `### ${this.describeComment(review)}`, '');
+                lines.push(review.message, '', fenceCode(review.code, language));
+                if (review.praise) {
+                    lines.push('', `> 🌟 ${review.praise}`);
+                }
+                for (const suggestion of review.suggestions) {
+                    lines.push('', `**Suggestion:** ${suggestion.description}`, '', fenceCode(suggestion.code, language));
+                }
+            }
+        }
+
+        return `${lines.join('\n')}\n`;
+    }
+
+    /** Heading of a comment, e.g. "Warning · Security · line 12" */
+    private describeComment(review: ReportComment): string {
+        const category = review.category ? ` · ${CATEGORY_LABELS[review.category] ?? review.category}` : '';
+        return `${REPORT_SEVERITY_LABELS[review.severity]}${category} · line ${review.line}${review.outdated ? ' (outdated)' : ''}`;
+    }
+
+    private toHtml(reviews: ReportComment[], metadata: ReportMetadata): string {
+        const escape = (text: string) => text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+
+        const metadataRows = this.describeMetadata(metadata)
+            .map(([label, value]) => `<tr><th>${escape(label)}</th><td>${escape(value)}</td></tr>`)
+            .join('\n');
+
+        const files = [...this.groupByFile(reviews)].map(([filePath, fileReviews]) => {
+            const comments = fileReviews.map(review => {
+                const praise = review.praise ? `<p class="praise">🌟 ${escape(review.praise)}</p>` : '';
+                const suggestions = (review.suggestions).map(suggestion =>
+                    `<div class="suggestion"><p><strong>Suggestion:</strong> ${escape(suggestion.description)}</p><pre><code>${escape(suggestion.code)}</code></pre></div>`
+                ).join('\n');
+                return `<article class="comment ${review.severity}">
+<h3>${escape(this.describeComment(review))}</h3>
+<p>${escape(review.message)}</p>
+<pre><code>${escape(review.code)}</code></pre>
+${praise}
+${suggestions}
+</article>`;
+            }).join('\n');
+            return `<section>\n<h2>${escape(filePath)}</h2>\n${comments}\n</section>`;
+        }).join('\n');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Pear Review</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #1f2328; }
+table { border-collapse: collapse; }
+th, td { text-align: left; padding: 0.25em 1em 0.25em 0; }
+pre { background: #f6f8fa; padding: 0.75em; overflow-x: auto; border-radius: 4px; }
+.comment { border-left: 4px solid #888; padding: 0 1em; margin: 1em 0; }
+.comment.error { border-color: #d1242f; }
+.comment.warning { border-color: #bf8700; }
+.comment.info { border-color: #0969da; }
+.praise { color: #1a7f37; }
+</style>
+</head>
+<body>
+<h1>🍐 Pear Review</h1>
+<table>
+${metadataRows}
+</table>
+<p><strong>${escape(this.summarize(reviews))}</strong></p>
+${files}
+</body>
+</html>
+`;
+    }
+
+    /** Builds a SARIF 2.1.0 log, with Pear's suggestions as fixes */
+    private toSarif(reviews: ReportComment[], metadata: ReportMetadata): object {
+        const sarifLevels: Record<Severity, string> = {
+            'error': 'error',
+            'warning': 'warning',
+            'info': 'note'
+        };
+
+        return {
+            $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+            version: '2.1.0',
+            runs: [{
+                tool: {
+                    driver: {
+                        name: 'Pear Review',
+                        version: metadata.toolVersion,
+                        informationUri: README_URL,
+                        rules: [
+                            {
+                                id: SARIF_RULE_ID,
+                                name: 'PearReviewComment',
+                                shortDescription: { text: 'Code review comment from Pear Review' }
+                            },
+                            ...Object.entries(CATEGORY_LABELS).map(([category, label]) => ({
+                                id: `pear-review/${category}`,
+                                name: label.replace(/\s/g, ''),
+                                shortDescription: { text: `${label} comment from Pear Review` },
+                                helpUri: getCategoryDocsUrl(category)
+                            }))
+                        ]
+                    }
+                },
+                invocations: (metadata.runs.length > 0 ? metadata.runs : [undefined]).map(run => ({
+                    executionSuccessful: true,
+                    startTimeUtc: run?.startedAt,
+                    endTimeUtc: metadata.generatedAt
+                })),
+                versionControlProvenance: metadata.repositories
+                    .filter(repository => repository.remoteUrl)
+                    .map(repository => ({
+                        repositoryUri: repository.remoteUrl,
+                        revisionId: repository.head,
+                        branch: repository.branch
+                    })),
+                properties: {
+                    models: this.getModels(metadata),
+                    baseRefs: this.getBaseRefs(metadata)
+                },
+                results: reviews.map(review => {
+                    const artifactLocation = { uri: review.relativePath, uriBaseId: '%SRCROOT%' };
+                    const region = {
+                        startLine: review.line,
+                        startColumn: review.column,
+                        endLine: review.endLine,
+                        endColumn: review.endColumn
+                    };
+                    return {
+                        ruleId: review.category ? `pear-review/${review.category}` : SARIF_RULE_ID,
+                        level: sarifLevels[review.severity],
+                        message: { text: review.message },
+                        locations: [{ physicalLocation: { artifactLocation, region } }],
+                        partialFingerprints: {
+                            'pearReview/v1': crypto.createHash('sha256')
+                                .update([review.filePath, review.code, review.message].join('\0'))
+                                .digest('hex')
+                        },
+                        fixes: review.suggestions.map(suggestion => ({
+                            description: { text: suggestion.description },
+                            artifactChanges: [{
+                                artifactLocation,
+                                replacements: [{ deletedRegion: region, insertedContent: { text: suggestion.code } }]
+                            }]
+                        })),
+                        properties: review.outdated ? { outdated: true } : undefined
+                    };
+                })
+            }]
+        };
+    }
+
+    private describeMetadata(metadata: ReportMetadata): [string, string][] {
+        const rows: [string, string][] = [
+            ['Reviewed', metadata.runs.map(run => run.startedAt).join(', ') || 'In an earlier session'],
+            ['Exported', metadata.generatedAt],
+            ['Model', this.getModels(metadata).join(', ') || 'Unknown'],
+            ['Compared against', this.getBaseRefs(metadata).join(', ') || 'Unknown']
+        ];
+        for (const repository of metadata.repositories) {
+            const label = metadata.repositories.length > 1 ? `HEAD (${repository.name})` : 'HEAD';
+            rows.push([label, repository.branch ? `${repository.head} (${repository.branch})` : repository.head]);
+        }
+        return rows;
+    }
+
+    private getModels(metadata: ReportMetadata): string[] {
+        return [...new Set(metadata.runs.flatMap(run => run.models))];
+    }
+
+    private getBaseRefs(metadata: ReportMetadata): string[] {
+        return [...new Set(metadata.runs.flatMap(run => run.baseRef ? [run.baseRef] : []))];
+    }
+
+    private summarize(reviews: ReportComment[]): string {
+        const counts = SEVERITY_ORDER.map(severity =>
+            `${reviews.filter(review => review.severity === severity).length} ${SEVERITY_LABELS[severity].toLowerCase()}`
+        );
+        return `${reviews.length} comment${reviews.length === 1 ? '' : 's'}: ${counts.join(', ')}`;
+    }
+
+    private groupByFile(reviews: ReportComment[]): Map<string, ReportComment[]> {
+        const groups = new Map<string, ReportComment[]>();
+        for (const review of reviews) {
+            groups.set(review.filePath, [...groups.get(review.filePath) ?? [], review]);
+        }
+        return groups;
+    }
+
+}
@@ -0,0 +1,95 @@
+import { parseReviewResponse } from './parser';
+import { estimateTokens, REPAIR_PROMPT } from './prompts';
+import { CancellationSignal, LineRange, RejectedReviewItem, ReviewItem, ReviewLogger, ReviewModelProvider, Severity, SEVERITY_ORDER } from './types';
+
+/** What happens to comments outside the changed lines in change-scoped reviews */
+export type OutOfScopeHandling = 'drop' | 'demote';
+
+/**
+ * Sends a review prompt and returns the valid review items of the response.
+ * Malformed items get one repair round trip before they are dropped.
+ */
+export async function requestReviewItems(
+    modelProvider: ReviewModelProvider,
+    prompt: string,
+    filePath: string,
+    token: CancellationSignal,
+    log: ReviewLogger,
+    onTokens: (count: number) => void = () => {}
+): Promise<ReviewItem[]> {
+    const response = await modelProvider.sendPrompt(prompt, token);
+    const { items, rejected } = await parseReviewResponse(countResponseTokens(response, onTokens), log);
+
+    if (rejected.length > 0 && !token.isCancellationRequested) {
+        logRejectedItems(log, filePath, rejected, 'asking the model to repair them');
+
+        const repairPrompt = `${prompt}\n\n${REPAIR_PROMPT}\n${rejected.map(item => `- ${item.reason}: ${item.text}`).join('\n')}`;
+        onTokens(estimateTokens(repairPrompt));
+        const repairResponse = await modelProvider.sendPrompt(repairPrompt, token);
+        const repaired = await parseReviewResponse(countResponseTokens(repairResponse, onTokens), log);
+
+        log.info(`${filePath}: repaired ${repaired.items.length} of ${rejected.length} rejected items`);
+        if (repaired.rejected.length > 0) {
+            logRejectedItems(log, filePath, repaired.rejected, 'dropping them');
+        }
+        items.push(...repaired.items);
+    }
+
+    return items;
+}
+
+/** Drops or demotes comments that fall outside the changed lines */
+export function applyChangeScope<T extends { line: number; severity: Severity }>(
+    reviews: T[],
+    changedRanges: LineRange[],
+    outOfScope: OutOfScopeHandling
+): T[] {
+    return reviews.flatMap(review => {
+        const isInScope = changedRanges.some(range => review.line >= range.start && review.line <= range.end);
+        if (isInScope) {
+            return [review];
+        }
+        return outOfScope === 'demote' ? [{ ...review, severity: 'info' as const }] : [];
+    });
+}
+
+/**
+ * Drops comments in categories the user turned off and applies their per-category severities.
+ * Comments without a category are kept as they are.
+ */
+export function applyCategorySettings<T extends { category?: string; severity: Severity }>(
+    reviews: T[],
+    enabled: Record<string, boolean>,
+    severities: Record<string, Severity>
+): T[] {
+    return reviews.flatMap(review => {
+        if (!review.category) {
+            return [review];
+        }
+        if (enabled[review.category] === false) {
+            return [];
+        }
+        const severity = severities[review.category];
+        return SEVERITY_ORDER.includes(severity) ? [{ ...review, severity }] : [review];
+    });
+}
+
+/** Whether a comment is at least as important as the given minimum severity */
+export function meetsSeverity(severity: Severity, minSeverity: Severity): boolean {
+    return SEVERITY_ORDER.indexOf(severity) <= SEVERITY_ORDER.indexOf(minSeverity);
+}
+
+/** Passes a response through while adding its estimated size to the run's token usage */
+async function* countResponseTokens(response: AsyncIterable<string>, onTokens: (count: number) => void): AsyncIterable<string> {
+    for await (const chunk of response) {
+        onTokens(estimateTokens(chunk));
+        yield chunk;
+    }
+}
+
+function logRejectedItems(log: ReviewLogger, filePath: string, rejected: RejectedReviewItem[], outcome: string): void {
+    log.warn(`${filePath}: ${rejected.length} items didn't match the review format, ${outcome}`);
+    for (const item of rejected) {
+        log.warn(`  ${item.reason}: ${item.text.length > 300 ? `${item.text.slice(0, 300)}…` : item.text}`);
+    }
+}
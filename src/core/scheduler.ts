@@ -0,0 +1,276 @@
+import { ModelRequestError } from './model';
+import { CancellationSignal } from './types';
+
+/**
+ * Runs review requests with a concurrency limit, retrying rate-limited and transient failures
+ */
+export class ReviewScheduler {
+    private readonly BASE_RETRY_DELAY = 1000;
+    private readonly MAX_RETRY_DELAY = 30000;
+    private readonly RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+    /**
+     * @param isRetryableError Recognizes further transient errors, e.g. those of a specific model API
+     */
+    constructor(
+        private maxConcurrency: number,
+        private maxRetries: number,
+        private isRetryableError: (error: unknown) => boolean = () => false
+    ) {
+        this.maxConcurrency = Math.max(1, maxConcurrency);
+        this.maxRetries = Math.max(0, maxRetries);
+    }
+
+    /**
+     * Runs the task for every item, at most `maxConcurrency` at a time.
+     * Stops starting new tasks once cancelled or after a failure, which is rethrown unless cancelled.
+     */
+    async runAll<T>(items: T[], task: (item: T) => Promise<void>, token: CancellationSignal): Promise<void> {
+        let nextIndex = 0;
+        let failure: { error: unknown } | undefined;
+
+        const worker = async () => {
+            while (nextIndex < items.length && !failure && !token.isCancellationRequested) {
+                const item = items[nextIndex++];
+                try {
+                    await task(item);
+                } catch (error) {
+                    failure ??= { error };
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: Math.min(this.maxConcurrency, items.length) }, worker));
+
+        if (failure && !token.isCancellationRequested) {
+            throw failure.error;
+        }
+    }
+
+    /** Retries the request with exponential backoff while it fails with a retryable error */
+    async withRetry<T>(request: () => Promise<T>, token: CancellationSignal): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await request();
+            } catch (error) {
+                if (token.isCancellationRequested || attempt >= this.maxRetries || !this.isRetryable(error)) {
+                    throw error;
+                }
+                await this.delay(this.getRetryDelay(error, attempt), token);
+            }
+        }
+    }
+
+    private isRetryable(error: unknown): boolean {
+        if (error instanceof ModelRequestError) {
+            return error.status === 408 || error.status === 429 || error.status >= 500;
+        }
+        return this.isNetworkFailure(error) || this.isRetryableError(error);
+    }
+
+    /** fetch reports network failures as TypeErrors caused by the socket error, whose code tells them apart from bugs */
+    private isNetworkFailure(error: unknown): boolean {
+        if (!(error instanceof TypeError)) {
+            return false;
+        }
+        const code = (error.cause as { code?: unknown } | undefined)?.code;
+        return typeof code === 'string' && this.RETRYABLE_NETWORK_CODES.includes(code);
+    }
+
+    private getRetryDelay(error: unknown, attempt: number): number {
+        if (error instanceof ModelRequestError && error.retryAfterMs) {
+            return Math.min(error.retryAfterMs, this.MAX_RETRY_DELAY);
+        }
+        const backoff = this.BASE_RETRY_DELAY * 2 ** attempt;
+        return Math.min(backoff + Math.random() * this.BASE_RETRY_DELAY, this.MAX_RETRY_DELAY);
+    }
+
+    private delay(ms: number, token: CancellationSignal): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                cancellation.dispose();
+                resolve();
+            }, ms);
+            const cancellation = token.onCancellationRequested(() => {
+                clearTimeout(timer);
+                cancellation.dispose();
+                resolve();
+            });
+        });
+    }
+}
+
+/**
+ * Cancellation outside the editor, e.g. when the command line run is interrupted
+ */
+export class CancellationSource implements CancellationSignal {
+    private cancelled = false;
+    private listeners = new Set<() => void>();
+
+    get isCancellationRequested(): boolean {
+        return this.cancelled;
+    }
+
+    onCancellationRequested(listener: () => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    cancel(): void {
+        if (this.cancelled) {
+            return;
+        }
+        this.cancelled = true;
+        [...this.listeners].forEach(listener => listener());
+    }
+}
+
+/** Represents how long automatic reviews wait, read again whenever the queue schedules a review */
+export interface AutoReviewTiming {
+    delayMs: number;      // After a file's last save
+    idleMs: number;       // After the last edit in any file; 0 to not wait for idle time
+}
+
+/** Tells the time and runs timers for the automatic review queue; tests pass a fake one */
+export interface Clock {
+    now(): number;
+    setTimeout(callback: () => void, ms: number): unknown;
+    clearTimeout(handle: unknown): void;
+}
+
+const SYSTEM_CLOCK: Clock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: handle => clearTimeout(handle as NodeJS.Timeout)
+};
+
+/**
+ * Collects saved files for automatic review. Each file waits on its own, so saving several files in a row
+ * reviews all of them, and files that are due at the same time are reviewed together. Content that was
+ * already reviewed or queued is skipped, and no review starts while the queue is paused.
+ */
+export class AutoReviewQueue {
+    private readonly pending = new Map<string, { dueAt: number; hash: string }>();
+    private readonly reviewedHashes = new Map<string, string>();
+    private readonly reviewingHashes = new Map<string, string>();
+    private timer: unknown;
+    private lastActivity = 0;
+    private pauseCount = 0;
+    private isRunning = false;
+
+    /**
+     * @param review Reviews the files with the given keys and reports its own errors; the queue waits for it before starting the next review.
+     * Resolves to whether the review went through, as content that failed or was cancelled is reviewed again on its next save.
+     */
+    constructor(
+        private review: (keys: string[]) => Promise<boolean>,
+        private getTiming: () => AutoReviewTiming,
+        private clock: Clock = SYSTEM_CLOCK
+    ) {}
+
+    /** Whether this content of the file was already reviewed, is being reviewed or is waiting for review */
+    isUnchanged(key: string, hash: string): boolean {
+        return this.reviewedHashes.get(key) === hash
+            || this.reviewingHashes.get(key) === hash
+            || this.pending.get(key)?.hash === hash;
+    }
+
+    /** Queues a file, or restarts its wait when it is already queued */
+    add(key: string, hash: string): void {
+        // Saving counts as activity too
+        this.lastActivity = this.clock.now();
+        this.pending.set(key, { dueAt: this.lastActivity + this.getTiming().delayMs, hash });
+        this.schedule();
+    }
+
+    /** Notes an edit, which postpones reviews while waiting for idle time */
+    noteActivity(): void {
+        this.lastActivity = this.clock.now();
+        if (this.pending.size > 0 && this.getTiming().idleMs > 0) {
+            this.schedule();
+        }
+    }
+
+    /** Makes every queued file due now, e.g. when the window loses focus */
+    flush(): void {
+        for (const entry of this.pending.values()) {
+            entry.dueAt = -Infinity;
+        }
+        this.lastActivity = -Infinity;
+        this.schedule();
+    }
+
+    /** Holds back reviews until `resume` is called as often as `pause` was */
+    pause(): void {
+        this.pauseCount++;
+    }
+
+    resume(): void {
+        this.pauseCount = Math.max(0, this.pauseCount - 1);
+        this.schedule();
+    }
+
+    /** Forgets queued files and what was reviewed, e.g. when automatic review is turned off */
+    clear(): void {
+        this.pending.clear();
+        this.reviewedHashes.clear();
+        this.schedule();
+    }
+
+    dispose(): void {
+        this.pending.clear();
+        if (this.timer) {
+            this.clock.clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private schedule(): void {
+        if (this.timer) {
+            this.clock.clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        if (this.pending.size === 0 || this.pauseCount > 0 || this.isRunning) {
+            return;
+        }
+
+        const nextDue = Math.min(...[...this.pending.values()].map(entry => this.getReadyAt(entry.dueAt)));
+        this.timer = this.clock.setTimeout(() => this.run(), Math.max(0, nextDue - this.clock.now()));
+    }
+
+    private async run(): Promise<void> {
+        this.timer = undefined;
+        const now = this.clock.now();
+        const due = [...this.pending].filter(([, entry]) => this.getReadyAt(entry.dueAt) <= now);
+        if (due.length === 0) {
+            this.schedule();
+            return;
+        }
+
+        for (const [key, entry] of due) {
+            this.pending.delete(key);
+            this.reviewingHashes.set(key, entry.hash);
+        }
+
+        this.isRunning = true;
+        let reviewed = false;
+        try {
+            reviewed = await this.review(due.map(([key]) => key));
+        } finally {
+            for (const [key, entry] of due) {
+                this.reviewingHashes.delete(key);
+                if (reviewed) {
+                    this.reviewedHashes.set(key, entry.hash);
+                }
+            }
+            this.isRunning = false;
+            this.schedule();
+        }
+    }
+
+    /** A file is ready once its own wait is over and, when waiting for idle time, nothing was edited for a while */
+    private getReadyAt(dueAt: number): number {
+        const { idleMs } = this.getTiming();
+        return idleMs > 0 ? Math.max(dueAt, this.lastActivity + idleMs) : dueAt;
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * Types shared by the VS Code extension and the command line interface.
+ * Nothing in `src/core` may depend on the `vscode` module.
+ */
+
+export type Severity = 'error' | 'warning' | 'info';
+
+/** Severities from most to least important */
+export const SEVERITY_ORDER: Severity[] = ['error', 'warning', 'info'];
+
+export type ChangeType = 'add' | 'modify' | 'rename' | 'delete';
+
+/** Represents an inclusive, 1-based range of lines */
+export interface LineRange {
+    start: number;
+    end: number;
+}
+
+/** Represents a changed path as reported by Git, before its content is loaded */
+export interface ChangedPath {
+    path: string;
+    oldPath?: string;
+    type: ChangeType;
+}
+
+/** Represents a changed file with its content, relative to the repository root */
+export interface ChangedFile {
+    path: string;
+    oldPath?: string;     // Previous location of renamed files
+    oldContent: string | null;
+    newContent: string;
+    diff: string;
+    type: ChangeType;
+}
+
+/** Represents a concrete fix proposed by the reviewer */
+export interface ReviewSuggestion {
+    description: string;
+    code: string;
+}
+
+/** Represents a review item from the model's response, after schema validation */
+export interface ReviewItem {
+    line: number;
+    code: string;
+    message: string;
+    severity: Severity;
+    category?: string;    // Key of REVIEW_CATEGORIES, when the model tagged the item with a known one
+    suggestions: ReviewSuggestion[];
+    praise?: string;
+}
+
+/** Represents part of the model's response that didn't match the review schema */
+export interface RejectedReviewItem {
+    text: string;
+    reason: string;
+}
+
+/** Represents a model response split into valid and rejected review items */
+export interface ParsedReviewResponse {
+    items: ReviewItem[];
+    rejected: RejectedReviewItem[];
+}
+
+/**
+ * How surely a comment points at the code the model meant: the code was found on the reported line,
+ * on a nearby line, or not at all so the comment covers the whole reported line
+ */
+export type AnchorConfidence = 'exact' | 'nearby' | 'line';
+
+/** Represents where a comment's code was found, with 0-based lines and characters */
+export interface TextLocation {
+    startLine: number;
+    startCharacter: number;
+    endLine: number;
+    endCharacter: number;
+    confidence: AnchorConfidence;
+}
+
+/** Represents a name in a file's code, with its 0-based line and character */
+export interface Identifier {
+    name: string;
+    line: number;
+    character: number;
+}
+
+/** Represents a request that can be cancelled; VS Code's CancellationToken fits this shape */
+export interface CancellationSignal {
+    readonly isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+/** Represents where review runs report what they did; VS Code's LogOutputChannel fits this shape */
+export interface ReviewLogger {
+    debug(message: string): void;
+    info(message: string): void;
+    warn(message: string): void;
+}
+
+/** Represents a language model backend able to run review prompts */
+export interface ReviewModelProvider {
+    /** Human-readable name used in messages */
+    readonly name: string;
+    isAvailable(): Promise<boolean>;
+    /** Sends a single-turn prompt and streams back the response text */
+    sendPrompt(prompt: string, token: CancellationSignal): Promise<AsyncIterable<string>>;
+}
+
+/** Represents a reviewer voice: the prompt template and the messages shown in its name */
+export interface ReviewPersona {
+    id: string;
+    label: string;
+    description: string;
+    voice: string;       // Who the reviewer is, also used to answer follow-up questions
+    template: string;    // Supports the {{filePath}}, {{language}}, {{diff}} and {{categories}} placeholders
+    praise: string[];    // Shown when a review finds nothing to comment on
+}
+
+/** Represents a project-level `.pearreview.json` or `.pearreview.yml` file */
+export interface ProjectReviewConfig {
+    categories?: string[];        // Keys of REVIEW_CATEGORIES to check for; all when left out
+    include?: string[];           // Globs relative to the workspace folder; everything when left out
+    exclude?: string[];
+    maxFileSize?: number;         // In bytes
+    minSeverity?: Severity;
+    model?: ProjectModelConfig;
+    guidelines?: string;          // Team guidelines appended to the review prompt
+    overrides?: ProjectReviewOverride[];
+}
+
+/** Represents the model a project asks for, overriding the user's settings */
+export interface ProjectModelConfig {
+    provider?: 'vscode' | 'openai-compatible';
+    vendor?: string;
+    family?: string;
+    endpoint?: string;
+    name?: string;                // Model name for OpenAI-compatible servers
+}
+
+/** Represents rules for a subset of files, applied on top of the project config */
+export interface ProjectReviewOverride {
+    paths: string[];
+    categories?: string[];
+    minSeverity?: Severity;
+    guidelines?: string;
+}
+
+/** Represents the review rules for one file, with all matching overrides applied */
+export interface ReviewPolicy {
+    categories: string[];
+    minSeverity: Severity;
+    guidelines: string[];
+}
+
+/** Represents code from another file that the model sees as background, not for review */
+export interface RelatedCode {
+    kind: 'definition' | 'caller';
+    symbol: string;       // The imported symbol that is defined, or the changed symbol that is called
+    filePath: string;     // Path shown to the model
+    line: number;         // 1-based line of the first line of `code`
+    code: string;
+}
+
+/** Represents what a review run looked at, for reports */
+export interface ReviewRunInfo {
+    baseRef?: string;
+    models: string[];
+    startedAt: string;    // ISO 8601
+}
+
+/** Represents the checked-out state of a repository */
+export interface RepositoryState {
+    name: string;
+    head: string;
+    branch?: string;      // Missing when HEAD is detached
+    remoteUrl?: string;
+}
+
+/** Represents one completed review run in one repository, as kept in the review history */
+export interface ReviewHistoryEntry {
+    timestamp: string;            // ISO 8601, when the run finished
+    repository: string;           // Repository name, or the workspace folder outside git
+    branch?: string;
+    head?: string;
+    baseRef?: string;
+    models: string[];
+    files: ReviewHistoryFile[];   // Every reviewed file, with or without comments
+}
+
+/** Represents the comment counts of one reviewed file in a history entry */
+export interface ReviewHistoryFile {
+    path: string;
+    severities: Record<Severity, number>;
+    categories: Record<string, number>;  // Keys of REVIEW_CATEGORIES, or "uncategorized"
+}
+
+/** Represents the run metadata included in exported reports */
+export interface ReportMetadata {
+    toolVersion: string;
+    generatedAt: string;
+    runs: ReviewRunInfo[];  // Runs the comments came from, oldest first
+    repositories: RepositoryState[];
+}
+
+/** Represents a review comment in a report, with 1-based positions */
+export interface ReportComment {
+    filePath: string;         // Path shown to readers
+    relativePath: string;     // Path relative to the source root, as code scanning tools expect
+    workspaceFolder?: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    severity: Severity;
+    category?: string;
+    message: string;
+    code: string;
+    suggestions: ReviewSuggestion[];
+    praise?: string;
+    outdated: boolean;
+}
+
+export type ReportFormat = 'markdown' | 'html' | 'json' | 'sarif';
@@ -2,759 +2,3480 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import simpleGit, { SimpleGit } from 'simple-git';
 import * as crypto from 'crypto';
+import { isReviewablePath, matchesReviewGlobs, parseProjectConfig, PROJECT_CONFIG_FILES, resolvePolicy } from './core/config';
+import { countChangedLines, findNestedRepositories, GitChangeReader, INDEX_REVISION, parseChangedLineRanges } from './core/git';
+import { ReviewHistoryDashboard, UNCATEGORIZED } from './core/history';
+import { findIdentifiers } from './core/identifiers';
+import { CodeLocator } from './core/locator';
+import { ModelRequestError, OpenAICompatibleModelProvider } from './core/model';
+import {
+    BUILT_IN_PERSONAS,
+    buildReviewPrompt,
+    CUSTOM_PERSONA_PRAISE,
+    CUSTOM_PERSONA_VOICE,
+    estimateTokens,
+    FOLLOW_UP_PROMPT,
+    formatRelatedCode,
+    prepareCodeChunks
+} from './core/prompts';
+import { CATEGORY_LABELS, fenceCode, getCategoryDocsUrl, REPORT_FORMATS, ReviewReportExporter, SEVERITY_LABELS } from './core/report';
+import { applyCategorySettings, applyChangeScope, meetsSeverity, OutOfScopeHandling, requestReviewItems } from './core/review';
+import { AutoReviewQueue, ReviewScheduler } from './core/scheduler';
+import {
+    AnchorConfidence,
+    ChangedFile,
+    ChangeType,
+    Identifier,
+    LineRange,
+    ProjectReviewConfig,
+    ReportComment,
+    ReportFormat,
+    RelatedCode,
+    RepositoryState,
+    ReviewHistoryEntry,
+    ReviewHistoryFile,
+    ReviewItem,
+    ReviewModelProvider,
+    ReviewPersona,
+    ReviewPolicy,
+    ReviewRunInfo,
+    ReviewSuggestion,
+    Severity,
+    SEVERITY_ORDER
+} from './core/types';
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Types & Interfaces
 // ═══════════════════════════════════════════════════════════════════════════
 
 /** Represents different types of targets that can be reviewed */
-type ReviewTarget = vscode.TextDocument[] | readonly vscode.SourceControlResourceState[] | FileChange[];
+type ReviewTarget = vscode.TextDocument[] | readonly vscode.SourceControlResourceState[] | FileChange[] | ReviewFile[];
 
 /** Represents a change in a file detected by Git */
 interface FileChange {
     uri: vscode.Uri;
+    oldUri?: vscode.Uri;  // Previous location of renamed files
     oldContent: string | null;
     newContent: string;
     diff: string;
-    type: 'add' | 'modify' | 'delete';
+    type: ChangeType;
+}
+
+/** Represents a Git repository found in the workspace */
+interface GitRepository {
+    root: string;                    // Absolute path of the working tree
+    name: string;                    // Label shown when picking a repository
+    git: SimpleGit;
+    folder: vscode.WorkspaceFolder;  // Workspace folder the repository belongs to
+    nestedRoots: string[];           // Nested repositories and submodules, which report their own changes
+}
+
+/** Represents a commit that can be picked for review */
+interface CommitInfo {
+    hash: string;
+    shortHash: string;
+    author: string;
+    date: string;
+    subject: string;
+    body: string;
+}
+
+/** Represents a file prepared for review */
+interface ReviewFile {
+    uri: vscode.Uri;
+    content: string;
+    changedRanges?: LineRange[];  // Lines changed in the working tree, when known
+    reviewRanges?: LineRange[];   // Only these lines are reviewed, whatever `pearReview.reviewScope` says, e.g. a selection
+    diff?: string;                // Unified diff of the change, when known
+    context?: string;             // Extra background for the model, e.g. commit details and the diff
 }
 
 /** Represents a code review comment */
 interface ReviewComment {
     filePath: string;
+    uri: vscode.Uri;      // Document the comment is anchored to
+    workspaceFolder?: string;  // Name of the workspace folder the file belongs to
     line: number;
     startColumn?: number;
     endColumn?: number;
     message: string;
-    severity: 'error' | 'warning' | 'info';
+    severity: Severity;
+    category?: string;    // Key of REVIEW_CATEGORIES
     range: vscode.Range;
     code: string;
+    suggestions?: ReviewSuggestion[];
+    praise?: string;
+    anchorConfidence?: AnchorConfidence;
+    stale?: boolean;      // The flagged code was edited after the review
+    run?: ReviewRunInfo;  // Missing for comments restored from before runs were recorded
 }
 
-// ═══════════════════════════════════════════════════════════════════════════
-// Services
-// ═══════════════════════════════════════════════════════════════════════════
+/** Represents where a comment's code was found in a document */
+interface CodeLocation {
+    range: vscode.Range;
+    confidence: AnchorConfidence;
+}
 
-/**
- * Handles Git operations and file changes
- */
-export class GitService {
-    private git: SimpleGit | null = null;
-    private workspacePath: string | null = null;
+/** Options for a single review run */
+interface ReviewRunOptions {
+    token?: vscode.CancellationToken;
+    baseRef?: string;     // What the changes were compared against, recorded for reports
+    partial?: boolean;    // Only the given files and lines were reviewed, so comments elsewhere are kept
+    /** Called when a file is about to be reviewed */
+    onFileStarted?: (filePath: string, index: number, total: number) => void;
+}
 
-    async initialize(): Promise<boolean> {
-        try {
-            const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-            if (!workspacePath) {
-                return false;
-            }
+/** Represents the outcome of a review run */
+interface ReviewRunResult {
+    reviews: ReviewComment[];
+    cancelled: boolean;
+    skippedFiles: string[];  // Files left (partly) unreviewed because the token budget ran out
+    reviewedFiles: vscode.Uri[];
+    run: ReviewRunInfo;
+}
 
-            this.workspacePath = workspacePath;
-            this.git = simpleGit(this.workspacePath);
-            return true;
-        } catch (error) {
-            return false;
-        }
-    }
+/** How the user decided to handle a finding */
+type FindingDecision = 'resolved' | 'dismissed' | 'wontFix';
 
-    async getChangedFiles(): Promise<FileChange[]> {
-        if (!this.git || !this.workspacePath) {
-            throw new Error('Git not initialized');
-        }
+/** Represents a finding the user decided on, remembered to suppress it in later reviews */
+interface SuppressedFinding {
+    fingerprint: string;
+    filePath: string;
+    code: string;       // Whitespace-normalized code snippet
+    topic: string[];    // Significant words of the message
+    message: string;
+    decision: FindingDecision;
+    reason?: string;
+    decidedAt: string;
+}
 
-        const changes: FileChange[] = [];
+/** Ways of grouping findings in the Review Comments view */
+type FindingGrouping = 'file' | 'severity' | 'category';
+
+/** Represents a node of the Review Comments view */
+type FindingTreeNode =
+    | { kind: 'group'; id: string; label: string; reviews: ReviewComment[]; uri?: vscode.Uri }
+    | { kind: 'finding'; review: ReviewComment };
+
+/** Represents a persona defined in the `pearReview.customPersonas` setting */
+interface CustomPersonaSetting {
+    id: string;
+    label?: string;
+    description?: string;
+    voice?: string;
+    template: string;
+}
 
-        try {
-            const status = await this.git.status();
-
-            // Get all changed files (modified, new, renamed)
-            const allChanges = [
-                ...status.modified,
-                ...status.not_added,
-                ...status.created,
-                ...status.renamed.map(r => r.to)
-            ];
+/** Represents a review comment in the JSON form persisted to workspace storage */
+interface StoredReviewComment extends Omit<ReviewComment, 'uri' | 'range'> {
+    uri: string;
+    range: [number, number, number, number];  // startLine, startCharacter, endLine, endCharacter
+}
 
-            // Remove duplicates
-            const uniqueFiles = [...new Set(allChanges)];
-
-            for (const file of uniqueFiles) {
-                try {
-                    const fullPath = path.join(this.workspacePath, file);
-                    const uri = vscode.Uri.file(fullPath);
-                    
-                    // Try to get current content
-                    let newContent = '';
-                    try {
-                        newContent = await this.readFile(fullPath);
-                    } catch (error) {
-                        continue; // Skip files we can't read
-                    }
+/** Represents the content of the persisted review store */
+interface StoredReviews {
+    version: number;
+    entries: [string, StoredReviewComment[]][];  // Least recently used first
+    findings: StoredReviewComment[];             // Comments shown by the last review
+}
 
-                    // Determine file type and get old content if applicable
-                    let type: 'add' | 'modify';
-                    let oldContent: string | null = null;
-                    let diff = '';
-
-                    if (status.modified.includes(file) || status.renamed.some(r => r.to === file)) {
-                        type = 'modify';
-                        try {
-                            oldContent = await this.git.show([`HEAD:${file}`]);
-                            diff = await this.git.diff(['HEAD', '--', file]);
-                        } catch (error) {
-                            oldContent = '';
-                            diff = newContent;
-                        }
-                    } else {
-                        type = 'add';
-                        diff = newContent;
-                    }
+/** Represents the review history file in global storage */
+interface StoredHistory {
+    version: number;
+    entries: ReviewHistoryEntry[];  // Oldest first
+}
 
-                    changes.push({ uri, oldContent, newContent, diff, type });
-                } catch (error) {
-                }
-            }
+// ═══════════════════════════════════════════════════════════════════════════
+// Model Providers
+// ═══════════════════════════════════════════════════════════════════════════
 
-            return changes;
-        } catch (error) {
-            throw new Error('Failed to get git changes');
+/**
+ * Runs reviews on a chat model exposed through the VS Code Language Model API
+ */
+export class VsCodeModelProvider implements ReviewModelProvider {
+    readonly name: string;
+
+    constructor(private vendor: string, private family: string) {
+        this.name = vendor === 'copilot' ? `GitHub Copilot (${family})` : `${vendor} (${family})`;
+    }
+
+    async isAvailable(): Promise<boolean> {
+        return !!await this.selectModel();
+    }
+
+    async sendPrompt(prompt: string, token: vscode.CancellationToken): Promise<AsyncIterable<string>> {
+        const model = await this.selectModel();
+        if (!model) {
+            throw new Error(`🍐 I couldn't connect to ${this.name}`);
         }
+
+        const response = await model.sendRequest(
+            [vscode.LanguageModelChatMessage.User(prompt)],
+            {},
+            token
+        );
+        return response.text;
     }
 
-    private async readFile(filePath: string): Promise<string> {
+    private async selectModel(): Promise<vscode.LanguageModelChat | undefined> {
         try {
-            const uri = vscode.Uri.file(filePath);
-            const data = await vscode.workspace.fs.readFile(uri);
-            return new TextDecoder().decode(data);
+            const [model] = await vscode.lm.selectChatModels({
+                vendor: this.vendor,
+                family: this.family
+            });
+            return model;
         } catch (error) {
-            return '';
+            return undefined;
         }
     }
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// Services
+// ═══════════════════════════════════════════════════════════════════════════
 
 /**
- * Manages code review functionality and diagnostics
+ * Creates the review model provider selected in the settings
  */
-export class ReviewService {
-    private previousReviews = new Map<string, ReviewComment[]>();
-    private reviewCache = new Map<string, ReviewComment[]>();
-    private diagnosticCollection: vscode.DiagnosticCollection;
-    private cachedDiagnostics = new Map<string, vscode.Diagnostic[]>();
-    private isVisible = true;
+export class ModelProviderService {
+    private readonly TRUSTED_ENDPOINTS_KEY = 'pearReview.trustedEndpoints';
+    private endpointPrompts = new Map<string, Promise<boolean>>();
+
+    constructor(
+        private secrets: vscode.SecretStorage,
+        private projectConfigService: ProjectConfigService,
+        private state: vscode.Memento
+    ) {}
+
+    /** Returns the model for reviewing a file; the project config takes precedence over settings */
+    async getProvider(resource?: vscode.Uri): Promise<ReviewModelProvider> {
+        const config = vscode.workspace.getConfiguration('pearReview');
+        const projectModel = (await this.projectConfigService.getConfig(resource)).model ?? {};
+        // An untrusted repository must not send reviews, or the API key, to a server of its choosing
+        const projectProvider = vscode.workspace.isTrusted ? projectModel.provider : undefined;
+        const projectEndpoint = vscode.workspace.isTrusted ? projectModel.endpoint : undefined;
+
+        if ((projectProvider ?? config.get<string>('modelProvider', 'vscode')) === 'openai-compatible') {
+            const settingsEndpoint = config.get<string>('openAICompatible.endpoint', 'http://localhost:11434/v1');
+            const endpoint = projectEndpoint && projectEndpoint !== settingsEndpoint && await this.confirmEndpoint(projectEndpoint)
+                ? projectEndpoint
+                : settingsEndpoint;
+
+            return new OpenAICompatibleModelProvider(
+                endpoint,
+                projectModel.name ?? config.get<string>('openAICompatible.model', ''),
+                await this.secrets.get(API_KEY_SECRET)
+            );
+        }
 
-    constructor() {
-        this.diagnosticCollection = vscode.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+        return new VsCodeModelProvider(
+            projectModel.vendor ?? config.get<string>('model.vendor', 'copilot'),
+            projectModel.family ?? config.get<string>('model.family', 'gpt-4o')
+        );
     }
 
-    async reviewFiles(files: { uri: vscode.Uri, content: string }[]): Promise<void> {
-        const model = await this.getCopilotModel();
-        if (!model) {
-            throw new Error("🍐 I couldn't connect to GitHub Copilot");
+    /** Asks once before sending code and the stored API key to an endpoint named by a project config */
+    private confirmEndpoint(endpoint: string): Promise<boolean> {
+        if (this.state.get<string[]>(this.TRUSTED_ENDPOINTS_KEY, []).includes(endpoint)) {
+            return Promise.resolve(true);
         }
 
-        const allReviews: ReviewComment[] = [];
+        // Files are reviewed concurrently, so every lookup shares one prompt; a refusal lasts for the session
+        let prompt = this.endpointPrompts.get(endpoint);
+        if (!prompt) {
+            prompt = (async () => {
+                const answer = await vscode.window.showWarningMessage(
+                    `🍐 This project's review config sends your code and your API key to ${endpoint}. Do you trust this endpoint?`,
+                    { modal: true },
+                    'Trust Endpoint'
+                );
+                if (answer !== 'Trust Endpoint') {
+                    return false;
+                }
 
-        for (const file of files) {
-            const filePath = vscode.workspace.asRelativePath(file.uri);
-            const contentHash = this.calculateContentHash(file.content);
+                const trusted = this.state.get<string[]>(this.TRUSTED_ENDPOINTS_KEY, []);
+                await this.state.update(this.TRUSTED_ENDPOINTS_KEY, [...trusted.filter(url => url !== endpoint), endpoint]);
+                return true;
+            })();
+            this.endpointPrompts.set(endpoint, prompt);
+        }
+        return prompt;
+    }
 
-            // Check cache for existing reviews
-            if (this.reviewCache.has(contentHash)) {
-                allReviews.push(...this.reviewCache.get(contentHash)!);
-                continue;
-            }
+    async setApiKey(apiKey: string): Promise<void> {
+        if (apiKey) {
+            await this.secrets.store(API_KEY_SECRET, apiKey);
+        } else {
+            await this.secrets.delete(API_KEY_SECRET);
+        }
+    }
+}
 
-            const contentWithContext = this.prepareCodeWithContext(file.content, file.uri);
+/**
+ * Persists reviews in workspace storage so they survive window reloads
+ */
+export class ReviewStore {
+    private entries = new Map<string, ReviewComment[]>();
+    private findings: ReviewComment[] = [];
+    private loading: Promise<void> | null = null;
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(private storageUri: vscode.Uri | undefined) {}
+
+    /** Returns the cached reviews for a key, marking them as recently used */
+    async get(key: string): Promise<ReviewComment[] | undefined> {
+        await this.load();
+        const reviews = this.entries.get(key);
+        if (reviews) {
+            this.entries.delete(key);
+            this.entries.set(key, reviews);
+        }
+        return reviews;
+    }
 
-            // Create the prompt for the individual file
-            const prompt = `${REVIEW_PROMPT}\n\nFile to review:\n--- ${filePath} ---\n${contentWithContext}`;
+    async set(key: string, reviews: ReviewComment[]): Promise<void> {
+        await this.load();
+        this.entries.delete(key);
+        this.entries.set(key, reviews);
+        this.evict();
+        await this.save();
+    }
 
-            const messages = [
-                vscode.LanguageModelChatMessage.User(prompt)
-            ];
+    /** Returns the comments shown by the last review */
+    async getFindings(): Promise<ReviewComment[]> {
+        await this.load();
+        return this.findings;
+    }
 
-            const chatResponse = await model.sendRequest(
-                messages,
-                {},
-                new vscode.CancellationTokenSource().token
-            );
+    async setFindings(findings: ReviewComment[]): Promise<void> {
+        await this.load();
+        this.findings = findings;
+        await this.save();
+    }
 
-            const reviews = await this.parseReviewResponse(chatResponse);
-            allReviews.push(...reviews);
+    async clear(): Promise<void> {
+        await this.load();
+        this.entries.clear();
+        this.findings = [];
+        await this.save();
+    }
 
-            // Cache the reviews
-            this.reviewCache.set(contentHash, reviews);
+    private evict(): void {
+        const maxEntries = vscode.workspace.getConfiguration('pearReview').get<number>('cacheSize', 200);
+        // Maps iterate in insertion order, so the first keys are the least recently used
+        for (const key of this.entries.keys()) {
+            if (this.entries.size <= maxEntries) {
+                break;
+            }
+            this.entries.delete(key);
         }
+    }
 
-        await this.processDiagnostics(allReviews);
-
-        // Only show diagnostics if they were visible before
-        if (!this.isVisible) {
-            this.hideAllDiagnostics();
+    private load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.readStore();
         }
+        return this.loading;
+    }
 
-        // Store reviews for change detection
-        for (const review of allReviews) {
-            const existingReviews = this.previousReviews.get(review.filePath) || [];
-            this.previousReviews.set(review.filePath, [...existingReviews, review]);
+    private async readStore(): Promise<void> {
+        if (!this.storageUri) {
+            return;
         }
 
-        // Provide positive feedback if no issues were found
-        if (allReviews.length === 0) {
-            vscode.window.showInformationMessage(this.getRandomPraiseMessage());
+        try {
+            const data = await vscode.workspace.fs.readFile(this.getStoreUri(this.storageUri));
+            const stored: StoredReviews = JSON.parse(new TextDecoder().decode(data));
+            if (stored.version !== REVIEW_STORE_VERSION) {
+                return;
+            }
+
+            this.entries = new Map(stored.entries.map(([key, reviews]) => [key, reviews.map(review => this.fromStored(review))]));
+            this.findings = stored.findings.map(review => this.fromStored(review));
+        } catch (error) {
+            // Start with an empty store if nothing was saved yet or the file is unreadable
         }
     }
 
-    private calculateContentHash(content: string): string {
-        return crypto.createHash('sha256').update(content).digest('hex');
+    /** Files are reviewed concurrently, so writes are queued to keep them from interleaving */
+    private save(): Promise<void> {
+        this.saving = this.saving.then(() => this.writeStore());
+        return this.saving;
     }
 
-    private prepareCodeWithContext(content: string, uri: vscode.Uri): string {
-        const lines = content.split('\n');
-        const fileExtension = path.extname(uri.fsPath).replace('.', '') || '';
+    private async writeStore(): Promise<void> {
+        if (!this.storageUri) {
+            return;
+        }
 
-        let numberedCode = `File extension: ${fileExtension}\nTotal lines: ${lines.length}\n\n`;
-        lines.forEach((line, index) => {
-            numberedCode += `${index + 1}: ${line}\n`;
-        });
+        const stored: StoredReviews = {
+            version: REVIEW_STORE_VERSION,
+            entries: [...this.entries].map(([key, reviews]) => [key, reviews.map(review => this.toStored(review))]),
+            findings: this.findings.map(review => this.toStored(review))
+        };
 
-        return numberedCode;
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                this.getStoreUri(this.storageUri),
+                new TextEncoder().encode(JSON.stringify(stored))
+            );
+        } catch (error) {
+            // The in-memory store keeps working even if it can't be persisted
+        }
     }
 
-    private async parseReviewResponse(
-        response: vscode.LanguageModelChatResponse
-    ): Promise<ReviewComment[]> {
-        const reviews: ReviewComment[] = [];
-        let buffer = '';
-
-        for await (const chunk of response.text) {
-            buffer += chunk;
-            try {
-                const jsonStart = buffer.indexOf('{');
-                const jsonEnd = buffer.lastIndexOf('}') + 1;
-                
-                if (jsonStart !== -1 && jsonEnd > jsonStart) {
-                    const review = JSON.parse(buffer.slice(jsonStart, jsonEnd));
-                    if (this.isValidReview(review)) {
-                        const document = await this.getDocument(review.filePath);
-                        if (document && review.line > 0 && review.line <= document.lineCount) {
-                            const line = document.lineAt(review.line - 1);
-                            const codePosition = this.findCodePosition(line.text, review.code);
-                            
-                            if (codePosition) {
-                                review.range = new vscode.Range(
-                                    review.line - 1, codePosition.start,
-                                    review.line - 1, codePosition.end
-                                );
-                                reviews.push(review);
-                            }
-                        }
-                    }
-                    buffer = buffer.slice(jsonEnd);
-                }
-            } catch (error) {
-                continue;
-            }
-        }
-        
-        return reviews;
+    private getStoreUri(storageUri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.joinPath(storageUri, 'reviews.json');
     }
 
-    private async processDiagnostics(reviews: ReviewComment[]): Promise<void> {
-        // Get all unique file paths from the current review
-        const currentFilePaths = new Set(reviews.map(r => r.filePath));
-        
-        // Create a map for new diagnostics
-        const newDiagnostics = new Map<string, vscode.Diagnostic[]>();
+    private toStored(review: ReviewComment): StoredReviewComment {
+        const { start, end } = review.range;
+        return {
+            ...review,
+            uri: review.uri.toString(),
+            range: [start.line, start.character, end.line, end.character]
+        };
+    }
 
-        // Process each file's reviews
-        for (const [filePath, fileReviews] of this.groupReviewsByFile(reviews)) {
-            try {
-                const document = await this.getDocument(filePath);
-                if (!document) {continue;}
+    private fromStored(review: StoredReviewComment): ReviewComment {
+        return {
+            ...review,
+            uri: vscode.Uri.parse(review.uri),
+            range: new vscode.Range(...review.range)
+        };
+    }
+}
 
-                const diagnostics: vscode.Diagnostic[] = [];
-                
-                for (const review of fileReviews) {
-                    if (!this.isValidLineNumber(document, review.line)) {
-                        continue;
-                    }
+/**
+ * Keeps a local history of completed review runs in global storage, for the dashboard
+ */
+export class ReviewHistoryService {
+    private entries: ReviewHistoryEntry[] = [];
+    private updating: Promise<void> = Promise.resolve();
 
-                    const diagnostic = await this.createDiagnostic(document, review);
-                    if (diagnostic) {
-                        diagnostics.push(diagnostic);
-                    }
-                }
+    constructor(private storageUri: vscode.Uri | undefined) {}
 
-                // Store new diagnostics
-                if (diagnostics.length > 0) {
-                    newDiagnostics.set(filePath, diagnostics);
-                }
-            } catch (error) {
-                // Handle error silently
-            }
-        }
+    /** Reads the history again every time, as other windows record their runs in it too */
+    async getEntries(): Promise<ReviewHistoryEntry[]> {
+        await this.updating;
+        return this.readHistory();
+    }
 
-        // Clear existing diagnostics
-        this.diagnosticCollection.clear();
+    async add(entries: ReviewHistoryEntry[]): Promise<void> {
+        await this.update(history => [...history, ...entries].slice(-MAX_HISTORY_ENTRIES));
+    }
 
-        // Update the cache with new diagnostics
-        this.cachedDiagnostics = newDiagnostics;
+    async clear(): Promise<void> {
+        await this.update(() => []);
+    }
 
-        // Set new diagnostics for all files
-        if (this.isVisible) {
-            for (const [filePath, diagnostics] of newDiagnostics) {
-                const uri = this.getUriForFilePath(filePath);
-                this.diagnosticCollection.set(uri, diagnostics);
-            }
-        }
+    /** Applies a change to the latest history on disk, one change at a time */
+    private update(change: (history: ReviewHistoryEntry[]) => ReviewHistoryEntry[]): Promise<void> {
+        this.updating = this.updating.then(async () => {
+            this.entries = change(await this.readHistory());
+            await this.writeHistory();
+        });
+        return this.updating;
     }
 
-    private groupReviewsByFile(reviews: ReviewComment[]): Map<string, ReviewComment[]> {
-        const reviewsByFile = new Map<string, ReviewComment[]>();
-        for (const review of reviews) {
-            const existing = reviewsByFile.get(review.filePath) || [];
-            existing.push(review);
-            reviewsByFile.set(review.filePath, existing);
+    private async readHistory(): Promise<ReviewHistoryEntry[]> {
+        if (!this.storageUri) {
+            return this.entries;
         }
-        return reviewsByFile;
-    }
 
-    private getUriForFilePath(filePath: string): vscode.Uri {
-        return vscode.Uri.file(
-            path.join(vscode.workspace.workspaceFolders![0].uri.fsPath, filePath)
-        );
+        try {
+            const data = await vscode.workspace.fs.readFile(this.getHistoryUri(this.storageUri));
+            const stored: StoredHistory = JSON.parse(new TextDecoder().decode(data));
+            if (stored.version === HISTORY_STORE_VERSION) {
+                this.entries = stored.entries;
+            }
+        } catch (error) {
+            // Keep what this session knows if nothing was recorded yet or the file is unreadable
+        }
+        return this.entries;
     }
 
-    private updateDiagnostics() {
-        if (!this.isVisible) {
-            this.diagnosticCollection.clear();
+    private async writeHistory(): Promise<void> {
+        if (!this.storageUri) {
             return;
         }
 
-        for (const [filePath, diagnostics] of this.cachedDiagnostics) {
-            const uri = this.getUriForFilePath(filePath);
-            this.diagnosticCollection.set(uri, diagnostics);
+        const stored: StoredHistory = { version: HISTORY_STORE_VERSION, entries: this.entries };
+        try {
+            await vscode.workspace.fs.createDirectory(this.storageUri);
+            await vscode.workspace.fs.writeFile(
+                this.getHistoryUri(this.storageUri),
+                new TextEncoder().encode(JSON.stringify(stored))
+            );
+        } catch (error) {
+            // The history of this session stays available even if it can't be persisted
         }
     }
 
-    hideAllDiagnostics() {
-        this.isVisible = false;
-        this.diagnosticCollection.clear();
+    private getHistoryUri(storageUri: vscode.Uri): vscode.Uri {
+        return vscode.Uri.joinPath(storageUri, 'history.json');
     }
+}
 
-    showAllDiagnostics() {
-        this.isVisible = true;
-        this.updateDiagnostics();
+/**
+ * Remembers decisions on findings and suppresses matching findings in later reviews
+ */
+export class SuppressionService {
+    private readonly TOPIC_SIMILARITY_THRESHOLD = 0.5;
+
+    constructor(private state: vscode.Memento) {}
+
+    getSuppressedFindings(): SuppressedFinding[] {
+        return this.state.get<SuppressedFinding[]>('pearReview.suppressedFindings', []);
     }
 
-    getDiagnosticsVisibility(): boolean {
-        return this.isVisible;
+    async suppress(review: ReviewComment, decision: FindingDecision, reason?: string): Promise<void> {
+        const code = this.normalizeCode(review.code);
+        const topic = this.getTopic(review.message);
+        const fingerprint = crypto.createHash('sha256')
+            .update([review.filePath, code, topic.join(' ')].join('\0'))
+            .digest('hex');
+
+        const suppressed = this.getSuppressedFindings().filter(finding => finding.fingerprint !== fingerprint);
+        suppressed.push({
+            fingerprint,
+            filePath: review.filePath,
+            code,
+            topic,
+            message: review.message,
+            decision,
+            reason,
+            decidedAt: new Date().toISOString()
+        });
+        await this.state.update('pearReview.suppressedFindings', suppressed);
     }
 
-    private isValidLineNumber(document: vscode.TextDocument, line: number): boolean {
-        return line > 0 && line <= document.lineCount;
+    async restore(fingerprints: string[]): Promise<void> {
+        const restored = new Set(fingerprints);
+        await this.state.update(
+            'pearReview.suppressedFindings',
+            this.getSuppressedFindings().filter(finding => !restored.has(finding.fingerprint))
+        );
     }
 
-    private async createDiagnostic(document: vscode.TextDocument, review: ReviewComment): Promise<vscode.Diagnostic | null> {
-        try {
-            const line = document.lineAt(review.line - 1);
-            const codePosition = this.findCodePosition(line.text, review.code);
-            if (!codePosition) {return null;}
+    /**
+     * Matches on file and code rather than line numbers, so findings stay suppressed when code moves.
+     * Messages are reworded between runs, so topics only need to overlap.
+     */
+    isSuppressed(review: ReviewComment): boolean {
+        const code = this.normalizeCode(review.code);
+        const topic = this.getTopic(review.message);
+
+        return this.getSuppressedFindings().some(finding =>
+            finding.filePath === review.filePath &&
+            finding.code === code &&
+            this.getTopicSimilarity(finding.topic, topic) >= this.TOPIC_SIMILARITY_THRESHOLD
+        );
+    }
 
-            const range = new vscode.Range(
-                review.line - 1, codePosition.start,
-                review.line - 1, codePosition.end
-            );
+    private normalizeCode(code: string): string {
+        return code.replace(/\s+/g, ' ').trim();
+    }
 
-            // Create diagnostic with additional properties
-            const diagnostic: vscode.Diagnostic = {
-                range,
-                message: this.formatDiagnosticMessage(review),
-                severity: this.getSeverity(review.severity),
-                source: DIAGNOSTIC_SOURCE,
-                code: {
-                    value: review.code,
-                    target: document.uri.with({ fragment: `L${review.line}` })
-                },
-                tags: this.getDiagnosticTags(review.severity),
-            };
+    private getTopic(message: string): string[] {
+        const words = message.toLowerCase()
+            .split(/[^a-z0-9_]+/)
+            .filter(word => word.length > 3 && !TOPIC_STOPWORDS.has(word));
+        return [...new Set(words)].sort();
+    }
 
-            return diagnostic;
-        } catch (error) {
-            return null;
+    /** Jaccard similarity of two word sets */
+    private getTopicSimilarity(a: string[], b: string[]): number {
+        if (a.length === 0 && b.length === 0) {
+            return 1;
         }
+        const setB = new Set(b);
+        const shared = a.filter(word => setB.has(word)).length;
+        return shared / (a.length + b.length - shared);
     }
+}
 
-    private getDiagnosticTags(severity: string): vscode.DiagnosticTag[] {
-        const tags: vscode.DiagnosticTag[] = [];
-        if (severity === 'warning') {
-            tags.push(vscode.DiagnosticTag.Unnecessary);
-        }
-        return tags;
+/**
+ * Provides the built-in and user-defined reviewer personas
+ */
+export class PersonaService {
+    getPersonas(): ReviewPersona[] {
+        const customPersonas = vscode.workspace.getConfiguration('pearReview')
+            .get<CustomPersonaSetting[]>('customPersonas', [])
+            .filter(persona => typeof persona?.id === 'string' && typeof persona.template === 'string')
+            .map(persona => ({
+                id: persona.id,
+                label: persona.label ?? persona.id,
+                description: persona.description ?? 'Custom persona',
+                voice: persona.voice ?? CUSTOM_PERSONA_VOICE,
+                template: persona.template,
+                praise: CUSTOM_PERSONA_PRAISE
+            }));
+
+        // Custom personas may replace a built-in one by reusing its id
+        const customIds = new Set(customPersonas.map(persona => persona.id));
+        return [...BUILT_IN_PERSONAS.filter(persona => !customIds.has(persona.id)), ...customPersonas];
     }
 
-    private findCodePosition(lineText: string, code: string): { start: number; end: number } | null {
-        const start = lineText.indexOf(code);
-        if (start === -1) {return null;}
-        
-        return {
-            start,
-            end: start + code.length
-        };
+    /** Returns the selected persona, falling back to the friendly Pear */
+    getActivePersona(): ReviewPersona {
+        const id = vscode.workspace.getConfiguration('pearReview').get<string>('persona', 'pear');
+        const personas = this.getPersonas();
+        return personas.find(persona => persona.id === id)
+            ?? personas.find(persona => persona.id === 'pear')
+            ?? BUILT_IN_PERSONAS[0];
     }
 
-    private formatDiagnosticMessage(review: ReviewComment): string {
-        return review.message;
+    async setActivePersona(id: string): Promise<void> {
+        await vscode.workspace.getConfiguration('pearReview').update('persona', id, true);
     }
+}
 
-    private getSeverity(severity: string): vscode.DiagnosticSeverity {
-        const severityMap: Record<string, vscode.DiagnosticSeverity> = {
-            'error': vscode.DiagnosticSeverity.Error,
-            'warning': vscode.DiagnosticSeverity.Warning,
-            'info': vscode.DiagnosticSeverity.Information
-        };
-        return severityMap[severity] ?? vscode.DiagnosticSeverity.Information;
+/**
+ * Loads and watches the project-level review config in each workspace folder
+ */
+export class ProjectConfigService implements vscode.Disposable {
+    private configs = new Map<string, ProjectReviewConfig>();
+    private loading: Promise<void> | null = null;
+    private readonly watcher: vscode.FileSystemWatcher;
+
+    constructor() {
+        this.watcher = vscode.workspace.createFileSystemWatcher(`**/{${PROJECT_CONFIG_FILES.join(',')}}`);
+        this.watcher.onDidCreate(() => this.reload());
+        this.watcher.onDidChange(() => this.reload());
+        this.watcher.onDidDelete(() => this.reload());
     }
 
-    private isValidReview(review: any): review is ReviewComment {
-        return review.filePath && 
-                typeof review.line === 'number' && 
-                review.message &&
-                ['error', 'warning', 'info'].includes(review.severity) &&
-                typeof review.code === 'string';
+    /** Reads the config files again on next use */
+    reload(): void {
+        this.loading = null;
     }
 
-    private async getDocument(filePath: string): Promise<vscode.TextDocument | undefined> {
-        try {
-            const fullPath = path.join(vscode.workspace.workspaceFolders![0].uri.fsPath, filePath);
-            return await vscode.workspace.openTextDocument(fullPath);
-        } catch (error) {
-            return undefined;
-        }
+    /** Returns the config of the workspace folder owning a file, or of the first folder */
+    async getConfig(resource?: vscode.Uri): Promise<ProjectReviewConfig> {
+        await this.load();
+        const folder = this.getFolder(resource);
+        return (folder && this.configs.get(folder.uri.toString())) ?? {};
     }
 
-    private async getCopilotModel() {
-        try {
-            const [model] = await vscode.lm.selectChatModels({
-                vendor: 'copilot',
-                family: 'gpt-4o'
-            });
-            return model;
-        } catch (error) {
-            return null;
+    /** Checks a file against the include and exclude globs and the size limit */
+    async isReviewable(uri: vscode.Uri, content: string): Promise<boolean> {
+        return isReviewablePath(await this.getConfig(uri), this.getRelativePath(uri), content);
+    }
+
+    /** Checks a file against the include and exclude globs only, before its content is read */
+    async isIncluded(uri: vscode.Uri): Promise<boolean> {
+        return matchesReviewGlobs(await this.getConfig(uri), this.getRelativePath(uri));
+    }
+
+    /** Returns the rules for a file, with overrides applied in the order they are listed */
+    async getPolicy(uri: vscode.Uri): Promise<ReviewPolicy> {
+        return resolvePolicy(await this.getConfig(uri), this.getRelativePath(uri));
+    }
+
+    dispose(): void {
+        this.watcher.dispose();
+    }
+
+    private load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = (async () => {
+                const configs = new Map<string, ProjectReviewConfig>();
+                for (const folder of vscode.workspace.workspaceFolders ?? []) {
+                    const config = await this.loadFolderConfig(folder);
+                    if (config) {
+                        configs.set(folder.uri.toString(), config);
+                    }
+                }
+                this.configs = configs;
+            })();
         }
+        return this.loading;
     }
 
-    private getRandomPraiseMessage(): string {
-        const praiseMessages = PEAR_MESSAGES.praise;
-        return praiseMessages[Math.floor(Math.random() * praiseMessages.length)];
+    /** Reads the first config file found in the folder root */
+    private async loadFolderConfig(folder: vscode.WorkspaceFolder): Promise<ProjectReviewConfig | undefined> {
+        for (const fileName of PROJECT_CONFIG_FILES) {
+            let text: string;
+            try {
+                const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, fileName));
+                text = Buffer.from(bytes).toString('utf8');
+            } catch (error) {
+                continue;
+            }
+
+            try {
+                const { config, problems } = parseProjectConfig(text, fileName);
+                if (problems.length > 0) {
+                    vscode.window.showWarningMessage(`🍐 I skipped some settings in ${fileName}: ${problems.join('; ')}.`);
+                }
+                return config;
+            } catch (error) {
+                vscode.window.showWarningMessage(
+                    `🍐 I couldn't read ${fileName} in ${folder.name}, so I'm using the default review rules. ${error instanceof Error ? error.message : ''}`
+                );
+                return undefined;
+            }
+        }
+        return undefined;
     }
 
-    dispose() {
-        this.diagnosticCollection.dispose();
-        this.previousReviews.clear();
+    /** Files shown at a Git revision belong to the same folder as the working copy */
+    private getFolder(resource?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+        return resource
+            ? vscode.workspace.getWorkspaceFolder(resource.with({ scheme: 'file', query: '' }))
+            : vscode.workspace.workspaceFolders?.[0];
     }
-}
 
+    private getRelativePath(uri: vscode.Uri): string {
+        const fileUri = uri.with({ scheme: 'file', query: '' });
+        const folder = this.getFolder(fileUri);
+        return folder
+            ? path.relative(folder.uri.fsPath, fileUri.fsPath).split(path.sep).join('/')
+            : fileUri.fsPath;
+    }
+}
 
 /**
- * Checks and validates prerequisites for the extension
+ * Handles Git operations and file changes
  */
-export class PrerequisiteService {
-    private readonly MAX_RETRIES = 5;
-    private readonly RETRY_DELAY = 1000;
-    private hasChecked = false;
+export class GitService {
+    private repositories: GitRepository[] = [];
 
-    constructor(private gitService: GitService) {}
+    async initialize(): Promise<boolean> {
+        if (this.repositories.length > 0) {
+            return true;
+        }
 
-    async checkAll(): Promise<boolean> {
         try {
-            // Only show messages on first check
-            const isFirstCheck = !this.hasChecked;
-            this.hasChecked = true;
+            this.repositories = await this.discoverRepositories();
+            return this.repositories.length > 0;
+        } catch (error) {
+            return false;
+        }
+    }
 
-            // Check git first
-            const isGitAvailable = await this.checkGitSetup();
-            if (!isGitAvailable) {
-                if (isFirstCheck) {
-                    vscode.window.showErrorMessage('🍐 I need Git to review your code. Is Git installed?');
-                }
-                return false;
+    /** Forgets the discovered repositories, e.g. after workspace folders changed */
+    reset(): void {
+        this.repositories = [];
+    }
+
+    getRepositories(): GitRepository[] {
+        return this.repositories;
+    }
+
+    async getChangedFiles(): Promise<FileChange[]> {
+        this.ensureInitialized();
+
+        try {
+            const changes: FileChange[] = [];
+            for (const repository of this.repositories) {
+                const workingTreeChanges = await this.getChangeReader(repository).getWorkingTreeChanges();
+                changes.push(...workingTreeChanges.map(change => this.toFileChange(repository, change)));
             }
+            return changes;
+        } catch (error) {
+            throw new Error('Failed to get git changes');
+        }
+    }
 
-            // Then check language model with retries
-            const isLanguageModelAvailable = await this.checkLanguageModelWithRetry();
-            if (!isLanguageModelAvailable) {
-                if (isFirstCheck) {
-                    vscode.window.showErrorMessage('🍐 I need GitHub Copilot to help review your code. Is it installed, enabled, and ready?');
+    /** Gets the uncommitted change of one file, or undefined when it has none or isn't in a repository */
+    async getWorkingTreeChange(uri: vscode.Uri): Promise<FileChange | undefined> {
+        this.ensureInitialized();
+
+        const repository = this.getRepositoryForPath(uri.fsPath);
+        if (!repository) {
+            return undefined;
+        }
+
+        try {
+            const relativePath = path.relative(repository.root, uri.fsPath).split(path.sep).join('/');
+            const [change] = await this.getChangeReader(repository).getWorkingTreeChanges([relativePath]);
+            return change && this.toFileChange(repository, change);
+        } catch (error) {
+            throw new Error('Failed to get git changes');
+        }
+    }
+
+    /**
+     * Gets the changes staged for the next commit, as they are in the index.
+     * Files staged without further edits are anchored to the working tree file, the others to their staged version.
+     */
+    async getStagedChanges(): Promise<FileChange[]> {
+        this.ensureInitialized();
+
+        try {
+            const changes: FileChange[] = [];
+            for (const repository of this.repositories) {
+                for (const change of await this.getChangeReader(repository).getStagedChanges()) {
+                    const workingContent = await this.readWorkingTreeFile(repository, change.path);
+                    changes.push(this.toFileChange(repository, change, workingContent === change.newContent ? undefined : INDEX_REVISION));
                 }
-                return false;
             }
+            return changes;
+        } catch (error) {
+            throw new Error('Failed to get git changes');
+        }
+    }
 
-            return true;
+    /**
+     * Gets everything that changed since the branch forked from the base ref, including uncommitted work.
+     * Repositories that don't know the base ref are skipped.
+     */
+    async getBranchChanges(baseRef: string): Promise<FileChange[]> {
+        this.ensureInitialized();
+
+        const changes: FileChange[] = [];
+        let foundBase = false;
+
+        for (const repository of this.repositories) {
+            const reader = this.getChangeReader(repository);
+            const mergeBase = await reader.getMergeBase(baseRef);
+            if (!mergeBase) {
+                continue;
+            }
+            foundBase = true;
+
+            try {
+                const branchChanges = await reader.getChangesSince(mergeBase);
+                changes.push(...branchChanges.map(change => this.toFileChange(repository, change)));
+            } catch (error) {
+                throw new Error('Failed to get git changes');
+            }
+        }
+
+        if (!foundBase) {
+            throw new Error(`🍐 I couldn't find a common ancestor with ${baseRef}. Has it been fetched?`);
+        }
+        return changes;
+    }
+
+    /** Gets the changes introduced by the commits from `oldestHash` up to and including `newestHash` */
+    async getCommitChanges(repository: GitRepository, oldestHash: string, newestHash: string): Promise<FileChange[]> {
+        try {
+            const commitChanges = await this.getChangeReader(repository).getCommitChanges(oldestHash, newestHash);
+            return commitChanges.map(change => this.toFileChange(repository, change, newestHash));
         } catch (error) {
-            return false;
+            throw new Error('Failed to get git changes');
         }
     }
 
-    private async checkGitSetup(): Promise<boolean> {
-        const isGitAvailable = await this.gitService.initialize();
-        if (!isGitAvailable) {
-            vscode.window.showErrorMessage('🍐 I need Git to review your code. Is Git installed?');
-            return false;
+    /** Lists the most recent commits on the current branch of a repository */
+    async getRecentCommits(repository: GitRepository, maxCount: number = 50): Promise<CommitInfo[]> {
+        const log = await repository.git.log({ maxCount });
+        return log.all.map(entry => ({
+            hash: entry.hash,
+            shortHash: entry.hash.slice(0, 7),
+            author: entry.author_name,
+            date: entry.date,
+            subject: entry.message,
+            body: entry.body
+        }));
+    }
+
+    /** Reads a file as it was at the revision encoded in a revision URI */
+    async getFileAtRevision(uri: vscode.Uri): Promise<string> {
+        const repository = this.getRepositoryForPath(uri.fsPath);
+        if (!repository) {
+            throw new Error('Git not initialized');
         }
-        return true;
+
+        const relativePath = path.relative(repository.root, uri.fsPath).split(path.sep).join('/');
+        return repository.git.show([`${uri.query}:${relativePath}`]);
     }
 
-    private async checkLanguageModelWithRetry(): Promise<boolean> {
-        for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
-            const isAvailable = await this.checkLanguageModel();
-            if (isAvailable) {
-                return true;
+    /** Builds the read-only URI showing a file at the given revision */
+    toRevisionUri(repository: GitRepository, relativePath: string, ref: string): vscode.Uri {
+        return vscode.Uri.file(path.join(repository.root, relativePath)).with({
+            scheme: REVISION_SCHEME,
+            query: ref
+        });
+    }
+
+    /** Describes the checked-out commit of every repository; repositories without commits are left out */
+    async getRepositoryStates(): Promise<RepositoryState[]> {
+        this.ensureInitialized();
+
+        const states: RepositoryState[] = [];
+        for (const repository of this.repositories) {
+            const state = await this.getChangeReader(repository).getRepositoryState(repository.name);
+            if (state) {
+                states.push(state);
             }
-            if (attempt < this.MAX_RETRIES) {
-                await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY));
+        }
+        return states;
+    }
+
+    /** Lists local and remote branches of all repositories that can serve as a review base */
+    async getBranches(): Promise<string[]> {
+        this.ensureInitialized();
+
+        const branches = new Set<string>();
+        for (const repository of this.repositories) {
+            const refs = await repository.git.raw(['for-each-ref', '--format=%(refname:short)', 'refs/heads', 'refs/remotes']);
+            refs.split('\n')
+                .map(ref => ref.trim())
+                .filter(ref => ref && !ref.endsWith('/HEAD'))
+                .forEach(ref => branches.add(ref));
+        }
+        return [...branches];
+    }
+
+    private ensureInitialized(): void {
+        if (this.repositories.length === 0) {
+            throw new Error('Git not initialized');
+        }
+    }
+
+    /** Finds the repository of every workspace folder, plus nested repositories and submodules */
+    private async discoverRepositories(): Promise<GitRepository[]> {
+        const roots = new Map<string, vscode.WorkspaceFolder>();
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const candidates = [
+                folder.uri.fsPath,
+                ...await findNestedRepositories(simpleGit(folder.uri.fsPath), folder.uri.fsPath, NESTED_REPOSITORY_SEARCH)
+            ];
+
+            for (const candidate of candidates) {
+                const root = await this.findRepositoryRoot(candidate);
+                if (root && !roots.has(root)) {
+                    roots.set(root, vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root)) ?? folder);
+                }
             }
         }
-        return false;
+
+        const allRoots = [...roots.keys()];
+        return [...roots].map(([root, folder]) => ({
+            root,
+            name: root === folder.uri.fsPath ? folder.name : path.relative(path.dirname(folder.uri.fsPath), root),
+            git: simpleGit(root),
+            folder,
+            nestedRoots: allRoots.filter(other => other.startsWith(root + path.sep))
+        }));
     }
 
-    private async checkLanguageModel(): Promise<boolean> {
+    private async findRepositoryRoot(directory: string): Promise<string | null> {
         try {
-            const [model] = await vscode.lm.selectChatModels({
-                vendor: 'copilot',
-                family: 'gpt-4'
-            });
-            return !!model;
+            const root = await simpleGit(directory).revparse(['--show-toplevel']);
+            return path.resolve(root.trim());
         } catch (error) {
-            return false;
+            return null;
+        }
+    }
+
+    /** Names the repository a file belongs to, as in `getRepositoryStates` */
+    getRepositoryName(uri: vscode.Uri): string | undefined {
+        return this.getRepositoryForPath(uri.fsPath)?.name;
+    }
+
+    /** Lists the files of a folder that aren't ignored by Git, or undefined when it isn't in a repository */
+    async getFolderFiles(folder: vscode.Uri): Promise<vscode.Uri[] | undefined> {
+        const repository = this.getRepositoryForPath(folder.fsPath);
+        if (!repository) {
+            return undefined;
+        }
+
+        const relativePath = path.relative(repository.root, folder.fsPath).split(path.sep).join('/');
+        const files = await this.getChangeReader(repository).listFiles(relativePath);
+        return files.map(file => vscode.Uri.file(path.join(repository.root, file)));
+    }
+
+    /** Returns the innermost repository containing the path */
+    private getRepositoryForPath(fsPath: string): GitRepository | undefined {
+        return this.repositories
+            .filter(repository => fsPath === repository.root || fsPath.startsWith(repository.root + path.sep))
+            .sort((a, b) => b.root.length - a.root.length)[0];
+    }
+
+    private getChangeReader(repository: GitRepository): GitChangeReader {
+        return new GitChangeReader(repository.git, repository.root, repository.nestedRoots);
+    }
+
+    private async readWorkingTreeFile(repository: GitRepository, relativePath: string): Promise<string | undefined> {
+        try {
+            const data = await vscode.workspace.fs.readFile(vscode.Uri.file(path.join(repository.root, relativePath)));
+            return new TextDecoder().decode(data);
+        } catch (error) {
+            return undefined;
         }
     }
+
+    /** Anchors a change to the working tree file, or to the read-only document at `newRef` when given */
+    private toFileChange(repository: GitRepository, change: ChangedFile, newRef?: string): FileChange {
+        return {
+            uri: newRef
+                ? this.toRevisionUri(repository, change.path, newRef)
+                : vscode.Uri.file(path.join(repository.root, change.path)),
+            oldUri: change.oldPath ? vscode.Uri.file(path.join(repository.root, change.oldPath)) : undefined,
+            oldContent: change.oldContent,
+            newContent: change.newContent,
+            diff: change.diff,
+            type: change.type
+        };
+    }
 }
 
-// ═══════════════════════════════════════════════════════════════════════════
-// Constants
-// ═══════════════════════════════════════════════════════════════════════════
+/**
+ * Finds code in other files that a review needs: the definitions of the symbols the reviewed
+ * lines use, and the call sites of the symbols a change touches. Uses the language features of
+ * the installed extensions, so what it finds depends on the language.
+ */
+export class RelatedCodeService {
+    /**
+     * Collects related code, definitions first. `reviewedRanges` are the lines sent to the model
+     * (all of them when undefined); callers are only looked up for symbols in `changedRanges`.
+     */
+    async collect(
+        document: vscode.TextDocument,
+        reviewedRanges: LineRange[] | undefined,
+        changedRanges: LineRange[] | undefined,
+        token: vscode.CancellationToken
+    ): Promise<RelatedCode[]> {
+        try {
+            const definitions = await this.findDefinitions(document, reviewedRanges, changedRanges, token);
+            const callers = changedRanges ? await this.findCallers(document, changedRanges, token) : [];
+            return [...definitions, ...callers];
+        } catch (error) {
+            // Related code only helps the review, it never stops it
+            return [];
+        }
+    }
 
-/** Collection of friendly messages used by the Pear */
-const PEAR_MESSAGES = {
-    greetings: [
-        "Hey there! Your friendly Pear pal is here to help! 🍐",
-        "Ready to make your code pear-fectly amazing! 🍐",
-        "Let's grow something wonderful together! 🍐",
-        "Time for some fruitful collaboration! 🍐"
-    ],
-    progress: [
-        "Taking a sweet look at your code 🌱",
-        "Finding the juiciest improvements",
-        "Carefully tending to your changes",
-        "Helping your code bloom and grow",
-        "Sprinkling some pear-fection",
-        "Adding a dash of coding magic",
-        "Making everything fresh and crisp",
-        "Nurturing your code with care",
-        "Bringing out the best flavors",
-        "Preparing some pear-ticular insights"
-    ],
-    praise: [
-        "This part is looking pear-fectly structured! 🌟",
-        "Ooh, loving this clean code approach! ✨",
-        "You've really planted some great ideas here! 🌱",
-        "This solution is ripe with potential! 🍐"
-    ],
-    errors: [
-        "Oopsie! Even the juiciest pears drop sometimes! Let's fix this together 🍐",
-        "Don't worry! Every tree starts as a seed. We'll sort this out! 🌱",
-        "Just a tiny bump - nothing we can't handle together! 🤝"
-    ]
-};
+    /**
+     * Looks up where the identifiers on the reviewed lines are defined, keeping definitions in other workspace files.
+     * Identifiers on the changed lines go first, as the lookups stop at `MAX_DEFINITION_LOOKUPS`.
+     */
+    private async findDefinitions(
+        document: vscode.TextDocument,
+        reviewedRanges: LineRange[] | undefined,
+        changedRanges: LineRange[] | undefined,
+        token: vscode.CancellationToken
+    ): Promise<RelatedCode[]> {
+        const inRanges = (ranges: LineRange[], line: number) => ranges.some(range => range.start - 1 <= line && line <= range.end - 1);
+        const identifiers = (await this.getIdentifiers(document))
+            .filter(identifier => !reviewedRanges || inRanges(reviewedRanges, identifier.line));
+        const ordered = changedRanges
+            ? [
+                ...identifiers.filter(identifier => inRanges(changedRanges, identifier.line)),
+                ...identifiers.filter(identifier => !inRanges(changedRanges, identifier.line))
+            ]
+            : identifiers;
+
+        const seen = new Set<string>();
+        const lookups = ordered
+            .filter(identifier => !seen.has(identifier.name) && seen.add(identifier.name))
+            .slice(0, MAX_DEFINITION_LOOKUPS);
+
+        const related: RelatedCode[] = [];
+        for (let index = 0; index < lookups.length && !token.isCancellationRequested; index += DEFINITION_LOOKUP_BATCH_SIZE) {
+            const batch = lookups.slice(index, index + DEFINITION_LOOKUP_BATCH_SIZE);
+            const definitions = await Promise.all(batch.map(identifier => this.findDefinition(document, identifier)));
+            related.push(...definitions.filter((definition): definition is RelatedCode => definition !== undefined));
+        }
+        return related;
+    }
 
-const DIAGNOSTIC_SOURCE = '🍐 Pear Review';
+    /** Looks up the definition of one identifier, if it is in another workspace file */
+    private async findDefinition(document: vscode.TextDocument, identifier: Identifier): Promise<RelatedCode | undefined> {
+        const [definition] = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[] | undefined>(
+            'vscode.executeDefinitionProvider',
+            document.uri,
+            new vscode.Position(identifier.line, identifier.character)
+        ) ?? [];
+        if (!definition) {
+            return undefined;
+        }
+
+        const uri = 'targetUri' in definition ? definition.targetUri : definition.uri;
+        if (uri.toString() === document.uri.toString() || !this.isWorkspaceSource(uri)) {
+            return undefined;
+        }
+        // Location links cover the whole declaration, plain locations only its name
+        const definitionRange = 'targetUri' in definition
+            ? definition.targetRange
+            : await this.getSymbolRange(uri, definition.range.start) ?? definition.range;
+        return this.readCode('definition', identifier.name, uri, definitionRange.start.line, definitionRange.end.line);
+    }
 
-const REVIEW_PROMPT = `You are the Friendly Neighborhood Pear (🍐), a kind and empathetic code review assistant.
-Your personality is warm, supportive, and encouraging. You love helping developers grow and improve their code.
-
-When reviewing code, use these severity levels with empathy:
-- error: For critical issues, explained gently but clearly
-- warning: For suggestions to help the code grow better
-- info: For friendly tips and best practices
-
-Remember to:
-- Always start with praise for what's done well
-- Be encouraging and supportive while pointing out improvements
-- Use friendly, fruit-themed metaphors when appropriate
-- Explain WHY changes help, not just WHAT to change
-- Keep the tone warm and positive
-
-Check for:
-- Code readability: Clear naming and structure (like a well-organized fruit basket!)
-- Maintainability: Making sure the code stays fresh and healthy
-- Efficiency: Helping the code run as smoothly as ripe fruit
-- Security: Keeping the code safe and protected
-- Error handling: Preparing for unexpected bumps in the road
-- Testing: Making sure everything's as sweet as it should be
-- Documentation: Leaving helpful notes for future gardeners
-- Style: Keeping everything neat and tidy
-- Version control: Maintaining a clear growth history
-
-Use this JSON format for each review item:
-{
-    "filePath": string,
-    "line": number,
-    "code": string,        // The specific problematic code
-    "message": string,     // Friendly, encouraging explanation
-    "severity": "error" | "warning" | "info",
-    "suggestions": [       // Array of specific code fixes
-        {
-            "description": string,  // What this fix does
-            "code": string          // The actual code to replace with
-        }
-    ],
-    "praise": string      // Something positive about the code (optional)
+    /**
+     * Finds the identifiers of a document with the language's semantic tokens, which know the code best,
+     * or by scanning its text when the language has none
+     */
+    private async getIdentifiers(document: vscode.TextDocument): Promise<Identifier[]> {
+        const legend = await vscode.commands.executeCommand<vscode.SemanticTokensLegend | undefined>(
+            'vscode.provideDocumentSemanticTokensLegend',
+            document.uri
+        );
+        const tokens = legend && await vscode.commands.executeCommand<vscode.SemanticTokens | undefined>(
+            'vscode.provideDocumentSemanticTokens',
+            document.uri
+        );
+        if (!legend || !tokens) {
+            const lines = Array.from({ length: document.lineCount }, (_, line) => document.lineAt(line).text);
+            return findIdentifiers(lines, document.languageId);
+        }
+
+        // Each token is five numbers: line and start relative to the previous token, length, type and modifier bits
+        const localModifiers = legend.tokenModifiers
+            .reduce((bits, modifier, index) => LOCAL_TOKEN_MODIFIERS.has(modifier) ? bits | (1 << index) : bits, 0);
+        const identifiers: Identifier[] = [];
+        let line = 0;
+        let character = 0;
+        for (let index = 0; index + 4 < tokens.data.length; index += 5) {
+            const [deltaLine, deltaStart, length, type, modifiers] = tokens.data.slice(index, index + 5);
+            line += deltaLine;
+            character = deltaLine === 0 ? character + deltaStart : deltaStart;
+            if (!NON_IDENTIFIER_TOKEN_TYPES.has(legend.tokenTypes[type]) && !(modifiers & localModifiers)) {
+                const name = document.getText(new vscode.Range(line, character, line, character + length));
+                identifiers.push({ name, line, character });
+            }
+        }
+        return identifiers;
+    }
+
+    /** Looks up where the functions, classes and types that overlap the changed lines are used in other workspace files */
+    private async findCallers(
+        document: vscode.TextDocument,
+        changedRanges: LineRange[],
+        token: vscode.CancellationToken
+    ): Promise<RelatedCode[]> {
+        const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[] | undefined>(
+            'vscode.executeDocumentSymbolProvider',
+            document.uri
+        ) ?? [];
+        const isChanged = (symbol: vscode.DocumentSymbol) => CALLABLE_SYMBOL_KINDS.has(symbol.kind) &&
+            changedRanges.some(range => range.start - 1 <= symbol.range.end.line && range.end - 1 >= symbol.range.start.line);
+        // A changed method is more telling than the class around it
+        const changedSymbols = this.flattenSymbols(symbols)
+            .filter(symbol => isChanged(symbol) && !(symbol.children ?? []).some(isChanged))
+            .slice(0, MAX_CHANGED_SYMBOLS);
+
+        const related: RelatedCode[] = [];
+        for (const symbol of changedSymbols) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+            const references = await vscode.commands.executeCommand<vscode.Location[] | undefined>(
+                'vscode.executeReferenceProvider',
+                document.uri,
+                symbol.selectionRange.start
+            ) ?? [];
+            const callers = references
+                .filter(reference => reference.uri.toString() !== document.uri.toString() && this.isWorkspaceSource(reference.uri))
+                .slice(0, MAX_CALLERS_PER_SYMBOL);
+            for (const caller of callers) {
+                const line = caller.range.start.line;
+                related.push(await this.readCode('caller', symbol.name, caller.uri, line - CALLER_CONTEXT_LINES, line + CALLER_CONTEXT_LINES));
+            }
+        }
+        return related;
+    }
+
+    /** Finds the innermost symbol around a position, e.g. the function whose name a definition points at */
+    private async getSymbolRange(uri: vscode.Uri, position: vscode.Position): Promise<vscode.Range | undefined> {
+        const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[] | undefined>(
+            'vscode.executeDocumentSymbolProvider',
+            uri
+        ) ?? [];
+        return this.flattenSymbols(symbols)
+            .filter(symbol => symbol.range?.contains(position))
+            .sort((a, b) => (a.range.end.line - a.range.start.line) - (b.range.end.line - b.range.start.line))[0]?.range;
+    }
+
+    private flattenSymbols(symbols: vscode.DocumentSymbol[]): vscode.DocumentSymbol[] {
+        return symbols.flatMap(symbol => [symbol, ...this.flattenSymbols(symbol.children ?? [])]);
+    }
+
+    /** Only the user's own code is worth the tokens, not dependencies or generated declarations */
+    private isWorkspaceSource(uri: vscode.Uri): boolean {
+        return uri.scheme === 'file' &&
+            vscode.workspace.getWorkspaceFolder(uri) !== undefined &&
+            !uri.path.includes('/node_modules/');
+    }
+
+    /** Reads the given 0-based lines of a file, cut off after `MAX_RELATED_CODE_LINES` */
+    private async readCode(kind: RelatedCode['kind'], symbol: string, uri: vscode.Uri, startLine: number, endLine: number): Promise<RelatedCode> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const start = Math.max(startLine, 0);
+        const end = Math.min(endLine, start + MAX_RELATED_CODE_LINES - 1, document.lineCount - 1);
+        const lines: string[] = [];
+        for (let line = start; line <= end; line++) {
+            lines.push(document.lineAt(line).text);
+        }
+        if (end < endLine && end < document.lineCount - 1) {
+            lines.push('...');
+        }
+        return { kind, symbol, filePath: vscode.workspace.asRelativePath(uri), line: start + 1, code: lines.join('\n') };
+    }
 }
 
-Remember to:
-1. Error:   "Critical issues that need immediate attention"
-2. Warning: "Suggestions for improvement"
-3. Info:    "Friendly tips and best practices"
+/**
+ * Manages code review functionality and diagnostics
+ */
+export class ReviewService {
+    private previousReviews = new Map<string, ReviewComment[]>();
+    private diagnosticCollection: vscode.DiagnosticCollection;
+    private cachedDiagnostics = new Map<string, vscode.Diagnostic[]>();
+    private cachedReviews = new Map<string, ReviewComment[]>();
+    private isVisible = true;
+    private saveFindingsTimer: NodeJS.Timeout | undefined;
+    private readonly documentChangeSubscription: vscode.Disposable;
+    private readonly codeLocator = new CodeLocator();
+    private readonly onDidChangeReviewsEmitter = new vscode.EventEmitter<void>();
+    private readonly onDidCompleteRunEmitter = new vscode.EventEmitter<ReviewRunResult>();
+
+    /** Fires whenever the set of anchored reviews changes */
+    readonly onDidChangeReviews = this.onDidChangeReviewsEmitter.event;
+
+    /** Fires when a review run finishes without being cancelled */
+    readonly onDidCompleteRun = this.onDidCompleteRunEmitter.event;
+
+    constructor(
+        private modelProviderService: ModelProviderService,
+        private reviewStore: ReviewStore,
+        private suppressionService: SuppressionService,
+        private projectConfigService: ProjectConfigService,
+        private personaService: PersonaService,
+        private relatedCodeService: RelatedCodeService,
+        private log: vscode.LogOutputChannel
+    ) {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection(DIAGNOSTIC_SOURCE);
+        this.documentChangeSubscription = vscode.workspace.onDidChangeTextDocument(event => this.trackEdits(event));
+    }
+
+    /** Shows the comments of the last review again, e.g. after a window reload */
+    async restoreFindings(): Promise<boolean> {
+        const findings = await this.reviewStore.getFindings();
+        if (findings.length === 0) {
+            return false;
+        }
+
+        await this.processDiagnostics(findings.filter(review => !this.suppressionService.isSuppressed(review)));
+        if (!this.isVisible) {
+            this.hideAllDiagnostics();
+        }
+        return true;
+    }
+
+    /** Forgets every stored review so the next run asks the model again */
+    async clearCache(): Promise<void> {
+        await this.reviewStore.clear();
+    }
+
+    async reviewFiles(files: ReviewFile[], options: ReviewRunOptions = {}): Promise<ReviewRunResult> {
+        const token = options.token ?? new vscode.CancellationTokenSource().token;
+
+        const allReviews: ReviewComment[] = [];
+        const skippedFiles: string[] = [];
+        const config = vscode.workspace.getConfiguration('pearReview');
+        const isChangeScoped = config.get<string>('reviewScope', 'file') === 'changes';
+        const persona = this.personaService.getActivePersona();
+        const maxLinesPerChunk = config.get<number>('maxLinesPerChunk', 400);
+        const tokenBudget = config.get<number>('tokenBudget', 0);
+        const contextLines = config.get<number>('diffContextLines', 3);
+        const relatedCodeTokens = config.get<number>('relatedCodeTokens', 1500);
+        const enabledCategories = config.get<Record<string, boolean>>('categories', {});
+        const categorySeverities = config.get<Record<string, Severity>>('categorySeverity', {});
+        const scheduler = new ReviewScheduler(
+            config.get<number>('maxConcurrentReviews', 3),
+            config.get<number>('maxRetries', 3),
+            error => this.isTransientModelError(error)
+        );
+        let tokensUsed = 0;
+        let startedCount = 0;
+        const reviewedFiles: vscode.Uri[] = [];
+        const run: ReviewRunInfo = { baseRef: options.baseRef, models: [], startedAt: new Date().toISOString() };
+
+        // Leave out files the project config excludes
+        const reviewableFiles: ReviewFile[] = [];
+        for (const file of files) {
+            if (await this.projectConfigService.isReviewable(file.uri, file.content)) {
+                reviewableFiles.push(file);
+            }
+        }
+
+        await scheduler.runAll(reviewableFiles, async file => {
+            const filePath = this.getDisplayPath(file.uri);
+            const changedRanges = file.reviewRanges ?? (isChangeScoped ? file.changedRanges : undefined);
+            options.onFileStarted?.(filePath, startedCount++, reviewableFiles.length);
+
+            // Pure renames have no changed lines to look at
+            if (changedRanges?.length === 0) {
+                return;
+            }
+
+            const document = await this.getDocument(file.uri);
+            if (!document) {
+                return;
+            }
 
-Always be encouraging and supportive!`;
+            const modelProvider = await this.modelProviderService.getProvider(file.uri);
+            if (!run.models.includes(modelProvider.name)) {
+                run.models.push(modelProvider.name);
+            }
+            // The project picks the categories to check, and the user can turn some of those off
+            const projectPolicy = await this.projectConfigService.getPolicy(file.uri);
+            const policy = {
+                ...projectPolicy,
+                categories: projectPolicy.categories.filter(category => enabledCategories[category] !== false)
+            };
+            if (policy.categories.length === 0) {
+                this.log.info(`${filePath}: skipped, every review category is turned off`);
+                return;
+            }
+            reviewedFiles.push(file.uri);
+            const fileReviews: ReviewComment[] = [];
+            const chunks = prepareCodeChunks(file.content, this.getFileExtension(file.uri), changedRanges, maxLinesPerChunk, contextLines);
+            const relatedCode = relatedCodeTokens > 0
+                ? await this.getRelatedCode(document, changedRanges, file.reviewRanges ?? file.changedRanges, relatedCodeTokens, filePath, token)
+                : undefined;
+            const promptFile = { filePath, language: document.languageId, diff: file.diff, context: file.context, relatedCode };
+
+            for (const chunk of chunks) {
+                const prompt = buildReviewPrompt(persona, promptFile, chunk, policy, !!changedRanges);
+
+                // The prompt embeds the content, so hashing it with the model covers every input of the review
+                const cacheKey = this.calculateContentHash(`${modelProvider.name}\0${file.uri.toString()}\0${prompt}`);
+
+                // Check cache for existing reviews
+                let reviews = await this.reviewStore.get(cacheKey);
+                if (reviews) {
+                    this.log.info(`${filePath}: ${reviews.length} comments from the cache`);
+                } else {
+                    const promptTokens = estimateTokens(prompt);
+                    if (tokenBudget > 0 && tokensUsed + promptTokens > tokenBudget) {
+                        skippedFiles.push(filePath);
+                        break;
+                    }
+                    tokensUsed += promptTokens;
+
+                    const parsedReviews = await scheduler.withRetry(
+                        () => this.requestReviews(modelProvider, prompt, document, filePath, token, count => tokensUsed += count),
+                        token
+                    );
+                    reviews = changedRanges
+                        ? applyChangeScope(parsedReviews, changedRanges, config.get<OutOfScopeHandling>('outOfScopeComments', 'drop'))
+                        : parsedReviews;
+
+                    // Cache the reviews
+                    await this.reviewStore.set(cacheKey, reviews);
+                }
+                // Comments move with edits, so keep the cached ones untouched
+                fileReviews.push(...reviews.map(review => ({ ...review, run })));
+            }
+
+            // Leave out findings the user already decided on or the project doesn't want, and show the rest right away
+            const categorizedReviews = applyCategorySettings(fileReviews, enabledCategories, categorySeverities);
+            const wantedReviews = categorizedReviews.filter(review => meetsSeverity(review.severity, policy.minSeverity));
+            const activeReviews = wantedReviews.filter(review => !this.suppressionService.isSuppressed(review));
+            this.log.info(
+                `${filePath}: showing ${activeReviews.length} of ${fileReviews.length} comments ` +
+                `(${fileReviews.length - categorizedReviews.length} in turned off categories, ` +
+                `${categorizedReviews.length - wantedReviews.length} below ${policy.minSeverity}, ` +
+                `${wantedReviews.length - activeReviews.length} suppressed)`
+            );
+            allReviews.push(...activeReviews);
+            await this.showFileReviews(document, activeReviews, file.reviewRanges);
+        }, token);
+
+        const cancelled = token.isCancellationRequested;
+        if (cancelled) {
+            // Keep what was reviewed so far next to the earlier comments on the remaining files
+            await this.reviewStore.setFindings(this.getAllReviews());
+            return { reviews: allReviews, cancelled, skippedFiles, reviewedFiles, run };
+        }
+
+        if (options.partial) {
+            // Each file's comments were replaced as it finished
+            await this.reviewStore.setFindings(this.getAllReviews());
+        } else {
+            await this.processDiagnostics(allReviews);
+            await this.reviewStore.setFindings(allReviews);
+        }
+
+        // Only show diagnostics if they were visible before
+        if (!this.isVisible) {
+            this.hideAllDiagnostics();
+        }
+
+        // Store reviews for change detection
+        for (const review of allReviews) {
+            const existingReviews = this.previousReviews.get(review.filePath) || [];
+            this.previousReviews.set(review.filePath, [...existingReviews, review]);
+        }
+
+        // Provide positive feedback if no issues were found
+        if (allReviews.length === 0 && skippedFiles.length === 0) {
+            vscode.window.showInformationMessage(this.getRandomPraiseMessage(persona));
+        }
+
+        const result = { reviews: allReviews, cancelled, skippedFiles, reviewedFiles, run };
+        this.onDidCompleteRunEmitter.fire(result);
+        return result;
+    }
+
+    private calculateContentHash(content: string): string {
+        return crypto.createHash('sha256').update(content).digest('hex');
+    }
+
+    /** Formats code from other files for the prompt within `maxTokens`, and logs what made it in */
+    private async getRelatedCode(
+        document: vscode.TextDocument,
+        reviewedRanges: LineRange[] | undefined,
+        changedRanges: LineRange[] | undefined,
+        maxTokens: number,
+        filePath: string,
+        token: vscode.CancellationToken
+    ): Promise<string | undefined> {
+        const related = await this.relatedCodeService.collect(document, reviewedRanges, changedRanges, token);
+        const { text, included } = formatRelatedCode(related, maxTokens);
+        if (included.length > 0) {
+            this.log.info(`${filePath}: related code from ${included.map(item => `${item.filePath}:${item.line}`).join(', ')}`);
+        }
+        if (included.length < related.length) {
+            this.log.info(`${filePath}: left out ${related.length - included.length} of ${related.length} related snippets to stay within pearReview.relatedCodeTokens`);
+        }
+        return text || undefined;
+    }
+
+    /** Path shown for a file, prefixed with its workspace folder in multi-root workspaces */
+    private getDisplayPath(uri: vscode.Uri): string {
+        return vscode.workspace.asRelativePath(uri.with({ scheme: 'file', query: '' }));
+    }
+
+    private getFileExtension(uri: vscode.Uri): string {
+        return path.extname(uri.fsPath).replace('.', '') || '';
+    }
+
+    /** Rate limits and timeouts of the VS Code Language Model API are worth retrying */
+    private isTransientModelError(error: unknown): boolean {
+        return error instanceof vscode.LanguageModelError &&
+            /rate.?limit|quota|too many requests|throttl|timeout|temporar/i.test(error.message);
+    }
+
+    /** Workspace folder owning a file, also for files shown at a Git revision */
+    private getWorkspaceFolder(uri: vscode.Uri): vscode.WorkspaceFolder | undefined {
+        return vscode.workspace.getWorkspaceFolder(uri.with({ scheme: 'file', query: '' }));
+    }
+
+    /** Sends a review prompt and turns the valid items of the response into comments anchored to the document */
+    private async requestReviews(
+        modelProvider: ReviewModelProvider,
+        prompt: string,
+        document: vscode.TextDocument,
+        filePath: string,
+        token: vscode.CancellationToken,
+        onTokens: (count: number) => void
+    ): Promise<ReviewComment[]> {
+        const items = await requestReviewItems(modelProvider, prompt, filePath, token, this.log, onTokens);
+        return this.anchorItems(items, document, filePath);
+    }
+
+    /** Places validated items in the document; items that can't be placed are logged and dropped */
+    private anchorItems(items: ReviewItem[], document: vscode.TextDocument, filePath: string): ReviewComment[] {
+        const reviews: ReviewComment[] = [];
+
+        for (const item of items) {
+            const location = this.locateCode(document, item.line, item.code);
+            if (!location) {
+                this.log.warn(`${filePath}: dropped comment on line ${item.line}, the file has ${document.lineCount} lines: ${item.message}`);
+                continue;
+            }
+            if (location.confidence === 'nearby') {
+                this.log.debug(`${filePath}: moved comment from line ${item.line} to line ${location.range.start.line + 1}`);
+            } else if (location.confidence === 'line') {
+                this.log.info(`${filePath}: \`${item.code}\` is not near line ${item.line}, pointing at the whole line instead`);
+            }
+
+            reviews.push({
+                ...item,
+                // Comments always belong to the file under review, whatever path the model echoes
+                filePath,
+                uri: document.uri,
+                workspaceFolder: this.getWorkspaceFolder(document.uri)?.name,
+                line: location.range.start.line + 1,
+                range: location.range,
+                anchorConfidence: location.confidence
+            });
+        }
+
+        return reviews;
+    }
+
+    private async processDiagnostics(reviews: ReviewComment[]): Promise<void> {
+        // Create maps for new diagnostics and the reviews backing them
+        const newDiagnostics = new Map<string, vscode.Diagnostic[]>();
+        const newReviews = new Map<string, ReviewComment[]>();
+
+        // Process each file's reviews
+        for (const [uriString, fileReviews] of this.groupReviewsByFile(reviews)) {
+            try {
+                const document = await this.getDocument(fileReviews[0].uri);
+                if (!document) {continue;}
+
+                const { diagnostics, anchoredReviews } = await this.anchorReviews(document, fileReviews);
+
+                // Store new diagnostics
+                if (diagnostics.length > 0) {
+                    newDiagnostics.set(uriString, diagnostics);
+                    newReviews.set(uriString, anchoredReviews);
+                }
+            } catch (error) {
+                // Handle error silently
+            }
+        }
+
+        // Clear existing diagnostics
+        this.diagnosticCollection.clear();
+
+        // Update the cache with new diagnostics
+        this.cachedDiagnostics = newDiagnostics;
+        this.cachedReviews = newReviews;
+
+        // Set new diagnostics for all files
+        if (this.shouldShowDiagnostics()) {
+            for (const [uriString, diagnostics] of newDiagnostics) {
+                this.diagnosticCollection.set(vscode.Uri.parse(uriString), diagnostics);
+            }
+        }
+
+        this.onDidChangeReviewsEmitter.fire();
+    }
+
+    /**
+     * Replaces the comments of a single file, leaving the other files untouched.
+     * When only some lines were reviewed, the comments on the other lines stay as well.
+     */
+    private async showFileReviews(document: vscode.TextDocument, reviews: ReviewComment[], reviewedRanges?: LineRange[]): Promise<void> {
+        const key = document.uri.toString();
+        const { diagnostics, anchoredReviews } = await this.anchorReviews(document, reviews);
+
+        if (reviewedRanges) {
+            const keptReviews = (this.cachedReviews.get(key) ?? []).filter(review => !reviewedRanges.some(range =>
+                review.range.start.line + 1 >= range.start && review.range.start.line + 1 <= range.end
+            ));
+            diagnostics.push(...keptReviews.map(review => this.createDiagnostic(document, review)));
+            anchoredReviews.push(...keptReviews);
+        }
+
+        if (diagnostics.length > 0) {
+            this.cachedDiagnostics.set(key, diagnostics);
+            this.cachedReviews.set(key, anchoredReviews);
+        } else {
+            this.cachedDiagnostics.delete(key);
+            this.cachedReviews.delete(key);
+        }
+
+        if (this.shouldShowDiagnostics()) {
+            this.diagnosticCollection.set(document.uri, diagnostics);
+        }
+        this.onDidChangeReviewsEmitter.fire();
+    }
+
+    /**
+     * Moves comments along with edits around them. Comments whose code was deleted are cleared,
+     * and comments whose code was edited are marked stale or cleared, depending on `pearReview.editedComments`.
+     */
+    private trackEdits(event: vscode.TextDocumentChangeEvent): void {
+        const key = event.document.uri.toString();
+        const reviews = this.cachedReviews.get(key);
+        if (!reviews?.length || event.contentChanges.length === 0) {
+            return;
+        }
+
+        const clearEdited = vscode.workspace.getConfiguration('pearReview').get<string>('editedComments', 'markStale') === 'clear';
+        const keptReviews: ReviewComment[] = [];
+        let hasChanged = false;
+
+        for (const review of reviews) {
+            let range = review.range;
+            let isEdited = false;
+            for (const change of event.contentChanges) {
+                const moved = this.moveRange(range, change);
+                range = moved.range;
+                isEdited = isEdited || moved.isEdited;
+            }
+
+            if (isEdited && (clearEdited || !event.document.getText(range).trim())) {
+                hasChanged = true;
+                continue;
+            }
+            if (isEdited || !range.isEqual(review.range)) {
+                review.range = range;
+                review.line = range.start.line + 1;
+                review.stale = review.stale || isEdited;
+                hasChanged = true;
+            }
+            keptReviews.push(review);
+        }
+
+        if (!hasChanged) {
+            return;
+        }
+
+        const diagnostics = keptReviews.map(review => this.createDiagnostic(event.document, review));
+        if (keptReviews.length > 0) {
+            this.cachedReviews.set(key, keptReviews);
+            this.cachedDiagnostics.set(key, diagnostics);
+        } else {
+            this.cachedReviews.delete(key);
+            this.cachedDiagnostics.delete(key);
+        }
+
+        if (this.shouldShowDiagnostics()) {
+            this.diagnosticCollection.set(event.document.uri, diagnostics);
+        }
+        this.onDidChangeReviewsEmitter.fire();
+
+        // Edits come in per keystroke, so persist the moved comments once typing pauses
+        if (this.saveFindingsTimer) {
+            clearTimeout(this.saveFindingsTimer);
+        }
+        this.saveFindingsTimer = setTimeout(() => {
+            this.reviewStore.setFindings(this.getAllReviews()).catch(error =>
+                this.log.warn(`Couldn't save the moved comments: ${error instanceof Error ? error.message : error}`)
+            );
+        }, 1000);
+    }
+
+    /** Applies one edit to a comment's range; edits touching the range itself mark it as edited */
+    private moveRange(range: vscode.Range, change: vscode.TextDocumentContentChangeEvent): { range: vscode.Range; isEdited: boolean } {
+        if (change.range.start.isAfterOrEqual(range.end)) {
+            return { range, isEdited: false };
+        }
+        if (change.range.end.isBeforeOrEqual(range.start)) {
+            return {
+                range: new vscode.Range(this.movePosition(range.start, change), this.movePosition(range.end, change)),
+                isEdited: false
+            };
+        }
+
+        // The edit overlaps the flagged code, so the range grows to cover whatever replaced it
+        const start = change.range.start.isBefore(range.start) ? change.range.start : range.start;
+        const end = range.end.isAfter(change.range.end)
+            ? this.movePosition(range.end, change)
+            : this.movePosition(change.range.end, change);
+        return { range: new vscode.Range(start, end), isEdited: true };
+    }
+
+    /** Moves a position at or after the end of an edit by the lines and characters the edit added */
+    private movePosition(position: vscode.Position, change: vscode.TextDocumentContentChangeEvent): vscode.Position {
+        const insertedLines = change.text.split(/\r\n|\r|\n/);
+        const lineDelta = insertedLines.length - 1 - (change.range.end.line - change.range.start.line);
+        if (position.line !== change.range.end.line) {
+            return position.translate(lineDelta);
+        }
+
+        const insertedEnd = (insertedLines.length === 1 ? change.range.start.character : 0)
+            + insertedLines[insertedLines.length - 1].length;
+        return new vscode.Position(
+            position.line + lineDelta,
+            insertedEnd + position.character - change.range.end.character
+        );
+    }
+
+    /** Creates diagnostics for the reviews that can be located in the document */
+    private async anchorReviews(
+        document: vscode.TextDocument,
+        reviews: ReviewComment[]
+    ): Promise<{ diagnostics: vscode.Diagnostic[]; anchoredReviews: ReviewComment[] }> {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const anchoredReviews: ReviewComment[] = [];
+
+        for (const review of reviews) {
+            const location = this.locateCode(document, review.line, review.code);
+            if (!location) {
+                continue;
+            }
+
+            review.range = location.range;
+            review.anchorConfidence = location.confidence;
+            diagnostics.push(this.createDiagnostic(document, review));
+            anchoredReviews.push(review);
+        }
+
+        return { diagnostics, anchoredReviews };
+    }
+
+    private locateCode(document: vscode.TextDocument, line: number, code: string): CodeLocation | null {
+        const lines = Array.from({ length: document.lineCount }, (_, index) => document.lineAt(index).text);
+        const location = this.codeLocator.locate(lines, line, code);
+        return location && {
+            range: new vscode.Range(location.startLine, location.startCharacter, location.endLine, location.endCharacter),
+            confidence: location.confidence
+        };
+    }
+
+    private groupReviewsByFile(reviews: ReviewComment[]): Map<string, ReviewComment[]> {
+        const reviewsByFile = new Map<string, ReviewComment[]>();
+        for (const review of reviews) {
+            const key = review.uri.toString();
+            const existing = reviewsByFile.get(key) || [];
+            existing.push(review);
+            reviewsByFile.set(key, existing);
+        }
+        return reviewsByFile;
+    }
+
+    /** Re-applies diagnostics after the display mode changed */
+    refreshDiagnostics() {
+        this.updateDiagnostics();
+    }
+
+    private updateDiagnostics() {
+        if (!this.shouldShowDiagnostics()) {
+            this.diagnosticCollection.clear();
+            return;
+        }
+
+        for (const [uriString, diagnostics] of this.cachedDiagnostics) {
+            this.diagnosticCollection.set(vscode.Uri.parse(uriString), diagnostics);
+        }
+    }
+
+    /** Diagnostics stay hidden when toggled off or when comments are only shown as threads */
+    private shouldShowDiagnostics(): boolean {
+        const displayMode = vscode.workspace.getConfiguration('pearReview').get<string>('displayMode', 'diagnostics');
+        return this.isVisible && displayMode !== 'comments';
+    }
+
+    hideAllDiagnostics() {
+        this.isVisible = false;
+        this.diagnosticCollection.clear();
+    }
+
+    showAllDiagnostics() {
+        this.isVisible = true;
+        this.updateDiagnostics();
+    }
+
+    getDiagnosticsVisibility(): boolean {
+        return this.isVisible;
+    }
+
+    /** Records a decision on a finding and removes it from the current review */
+    async decideOnReview(review: ReviewComment, decision: FindingDecision, reason?: string): Promise<void> {
+        await this.suppressionService.suppress(review, decision, reason);
+
+        const key = review.uri.toString();
+        const reviews = this.cachedReviews.get(key) ?? [];
+        const diagnostics = this.cachedDiagnostics.get(key) ?? [];
+        const index = reviews.indexOf(review);
+        if (index === -1) {
+            return;
+        }
+
+        // Reviews and diagnostics are stored side by side, so they share indexes
+        reviews.splice(index, 1);
+        diagnostics.splice(index, 1);
+        if (reviews.length === 0) {
+            this.cachedReviews.delete(key);
+            this.cachedDiagnostics.delete(key);
+        }
+
+        if (this.shouldShowDiagnostics()) {
+            this.diagnosticCollection.set(review.uri, diagnostics);
+        }
+        this.onDidChangeReviewsEmitter.fire();
+        await this.reviewStore.setFindings(this.getAllReviews());
+    }
+
+    /** Asks the model a follow-up question about one of its review comments */
+    async askFollowUp(
+        review: ReviewComment,
+        conversation: { role: 'developer' | 'pear'; text: string }[],
+        question: string,
+        token: vscode.CancellationToken
+    ): Promise<AsyncIterable<string>> {
+        const modelProvider = await this.modelProviderService.getProvider(review.uri);
+        const document = await this.getDocument(review.uri);
+        const fileContent = document ? prepareCodeChunks(document.getText(), this.getFileExtension(review.uri))[0] : '';
+
+        const transcript = conversation
+            .map(entry => `${entry.role === 'pear' ? 'Pear' : 'Developer'}: ${entry.text}`)
+            .join('\n\n');
+        const prompt = `${this.personaService.getActivePersona().voice}\n${FOLLOW_UP_PROMPT}\n\nFile:\n--- ${review.filePath} ---\n${fileContent}\n` +
+            `Your review comment on line ${review.range.start.line + 1} (\`${review.code}\`):\n${review.message}\n\n` +
+            `Conversation so far:\n${transcript}\n\nDeveloper: ${question}`;
+
+        return modelProvider.sendPrompt(prompt, token);
+    }
+
+    /** Returns every anchored review, ordered by file and position */
+    getAllReviews(): ReviewComment[] {
+        return [...this.cachedReviews.values()]
+            .flat()
+            .sort((a, b) => a.filePath.localeCompare(b.filePath) || a.range.start.compareTo(b.range.start));
+    }
+
+    /** Returns the anchored reviews for the given file */
+    getReviewsForUri(uri: vscode.Uri): ReviewComment[] {
+        return this.cachedReviews.get(uri.toString()) ?? [];
+    }
+
+    /** Finds the review backing a diagnostic produced by this service */
+    findReviewForDiagnostic(uri: vscode.Uri, diagnostic: vscode.Diagnostic): ReviewComment | undefined {
+        if (diagnostic.source !== DIAGNOSTIC_SOURCE) {
+            return undefined;
+        }
+        return this.getReviewsForUri(uri).find(review =>
+            review.range.isEqual(diagnostic.range) &&
+            this.formatDiagnosticMessage(review) === diagnostic.message
+        );
+    }
+
+    private createDiagnostic(document: vscode.TextDocument, review: ReviewComment): vscode.Diagnostic {
+        return {
+            range: review.range,
+            message: this.formatDiagnosticMessage(review),
+            // Outdated comments stay visible without counting as problems
+            severity: review.stale ? vscode.DiagnosticSeverity.Hint : this.getSeverity(review.severity),
+            source: DIAGNOSTIC_SOURCE,
+            // The category links to what it covers; uncategorized comments link to their line
+            code: review.category
+                ? { value: review.category, target: vscode.Uri.parse(getCategoryDocsUrl(review.category)) }
+                : { value: review.code, target: document.uri.with({ fragment: `L${review.range.start.line + 1}` }) },
+            tags: this.getDiagnosticTags(review.severity),
+        };
+    }
+
+    private getDiagnosticTags(severity: string): vscode.DiagnosticTag[] {
+        const tags: vscode.DiagnosticTag[] = [];
+        if (severity === 'warning') {
+            tags.push(vscode.DiagnosticTag.Unnecessary);
+        }
+        return tags;
+    }
+
+    private formatDiagnosticMessage(review: ReviewComment): string {
+        if (review.stale) {
+            return `${review.message} (outdated: the code changed since the review)`;
+        }
+        if (review.anchorConfidence === 'line') {
+            return `${review.message} (approximate location)`;
+        }
+        return review.message;
+    }
+
+    private getSeverity(severity: string): vscode.DiagnosticSeverity {
+        const severityMap: Record<string, vscode.DiagnosticSeverity> = {
+            'error': vscode.DiagnosticSeverity.Error,
+            'warning': vscode.DiagnosticSeverity.Warning,
+            'info': vscode.DiagnosticSeverity.Information
+        };
+        return severityMap[severity] ?? vscode.DiagnosticSeverity.Information;
+    }
+
+    private async getDocument(uri: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+        try {
+            return await vscode.workspace.openTextDocument(uri);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private getRandomPraiseMessage(persona: ReviewPersona): string {
+        const praiseMessages = persona.praise;
+        return praiseMessages[Math.floor(Math.random() * praiseMessages.length)];
+    }
+
+    dispose() {
+        if (this.saveFindingsTimer) {
+            clearTimeout(this.saveFindingsTimer);
+        }
+        this.documentChangeSubscription.dispose();
+        this.diagnosticCollection.dispose();
+        this.onDidChangeReviewsEmitter.dispose();
+        this.onDidCompleteRunEmitter.dispose();
+        this.previousReviews.clear();
+        this.cachedReviews.clear();
+    }
+}
+
+
+/**
+ * Checks and validates prerequisites for the extension
+ */
+export class PrerequisiteService {
+    private readonly MAX_RETRIES = 5;
+    private readonly RETRY_DELAY = 1000;
+    private hasChecked = false;
+
+    constructor(private gitService: GitService, private modelProviderService: ModelProviderService) {}
+
+    async checkAll(): Promise<boolean> {
+        try {
+            // Only show messages on first check
+            const isFirstCheck = !this.hasChecked;
+            this.hasChecked = true;
+
+            // Check git first
+            const isGitAvailable = await this.checkGitSetup();
+            if (!isGitAvailable) {
+                if (isFirstCheck) {
+                    vscode.window.showErrorMessage('🍐 I need Git to review your code. Is Git installed?');
+                }
+                return false;
+            }
+
+            // Then check language model with retries
+            const modelProvider = await this.modelProviderService.getProvider();
+            const isLanguageModelAvailable = await this.checkLanguageModelWithRetry(modelProvider);
+            if (!isLanguageModelAvailable) {
+                if (isFirstCheck) {
+                    vscode.window.showErrorMessage(`🍐 I need ${modelProvider.name} to help review your code. Is it installed, enabled, and ready?`);
+                }
+                return false;
+            }
+
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private async checkGitSetup(): Promise<boolean> {
+        const isGitAvailable = await this.gitService.initialize();
+        if (!isGitAvailable) {
+            vscode.window.showErrorMessage('🍐 I need Git to review your code. Is Git installed?');
+            return false;
+        }
+        return true;
+    }
+
+    private async checkLanguageModelWithRetry(modelProvider: ReviewModelProvider): Promise<boolean> {
+        for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
+            const isAvailable = await modelProvider.isAvailable();
+            if (isAvailable) {
+                return true;
+            }
+            if (attempt < this.MAX_RETRIES) {
+                await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY));
+            }
+        }
+        return false;
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Providers
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Turns the reviewer's suggestions into quick fixes on Pear diagnostics
+ */
+export class ReviewCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly fixAllKind = vscode.CodeActionKind.SourceFixAll.append('pear');
+    static readonly providedCodeActionKinds = [
+        vscode.CodeActionKind.QuickFix,
+        ReviewCodeActionProvider.fixAllKind
+    ];
+
+    constructor(private reviewService: ReviewService) {}
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        // Source fix-all requests (e.g. editor.codeActionsOnSave) only want the bulk action
+        if (context.only?.contains(ReviewCodeActionProvider.fixAllKind)) {
+            const fixAll = this.createFixAllAction(document, ReviewCodeActionProvider.fixAllKind);
+            return fixAll ? [fixAll] : [];
+        }
+
+        const actions: vscode.CodeAction[] = [];
+        const decisionActions: vscode.CodeAction[] = [];
+        let hasFixes = false;
+
+        for (const diagnostic of context.diagnostics) {
+            const review = this.reviewService.findReviewForDiagnostic(document.uri, diagnostic);
+            if (!review) {
+                continue;
+            }
+
+            decisionActions.push(...this.createDecisionActions(review, diagnostic));
+
+            const suggestions = this.canApplySuggestions(review) ? review.suggestions ?? [] : [];
+            suggestions.forEach((suggestion, index) => {
+                hasFixes = true;
+                const fix = new vscode.CodeAction(`🍐 ${suggestion.description}`, vscode.CodeActionKind.QuickFix);
+                fix.diagnostics = [diagnostic];
+                fix.isPreferred = index === 0;
+                fix.edit = new vscode.WorkspaceEdit();
+                fix.edit.replace(document.uri, review.range, suggestion.code);
+                actions.push(fix);
+
+                const preview = new vscode.CodeAction(`🍐 Preview fix as diff: ${suggestion.description}`, vscode.CodeActionKind.QuickFix);
+                preview.diagnostics = [diagnostic];
+                preview.command = {
+                    command: 'pear-review.previewFix',
+                    title: 'Preview Fix',
+                    arguments: [document.uri, review.range, suggestion]
+                };
+                actions.push(preview);
+            });
+        }
+
+        if (hasFixes) {
+            const fixAll = this.createFixAllAction(document, vscode.CodeActionKind.QuickFix);
+            if (fixAll) {
+                actions.push(fixAll);
+            }
+        }
+
+        return [...actions, ...decisionActions];
+    }
+
+    private createDecisionActions(review: ReviewComment, diagnostic: vscode.Diagnostic): vscode.CodeAction[] {
+        const decisions: { title: string; command: string }[] = [
+            { title: '🍐 Mark as resolved', command: 'pear-review.resolveFinding' },
+            { title: '🍐 Dismiss this comment', command: 'pear-review.dismissFinding' },
+            { title: "🍐 Won't fix...", command: 'pear-review.wontFixFinding' }
+        ];
+
+        return decisions.map(decision => {
+            const action = new vscode.CodeAction(decision.title, vscode.CodeActionKind.QuickFix);
+            action.diagnostics = [diagnostic];
+            action.command = { command: decision.command, title: decision.title, arguments: [review] };
+            return action;
+        });
+    }
+
+    /** Builds a single edit applying the preferred suggestion of every review in the file */
+    createFixAllEdit(document: vscode.TextDocument): vscode.WorkspaceEdit | null {
+        const reviews = this.reviewService.getReviewsForUri(document.uri)
+            .filter(review => review.suggestions?.length && this.canApplySuggestions(review))
+            .sort((a, b) => a.range.start.compareTo(b.range.start));
+
+        const edit = new vscode.WorkspaceEdit();
+        let lastEnd: vscode.Position | null = null;
+
+        for (const review of reviews) {
+            // Overlapping edits are rejected by VS Code, so keep the first one
+            if (lastEnd && review.range.start.isBefore(lastEnd)) {
+                continue;
+            }
+            edit.replace(document.uri, review.range, review.suggestions![0].code);
+            lastEnd = review.range.end;
+        }
+
+        return edit.size > 0 ? edit : null;
+    }
+
+    /**
+     * Suggestions were written for the reviewed code, so they can't replace code that was edited since,
+     * or a line that was only guessed because the flagged code wasn't found
+     */
+    private canApplySuggestions(review: ReviewComment): boolean {
+        return !review.stale && review.anchorConfidence !== 'line';
+    }
+
+    private createFixAllAction(document: vscode.TextDocument, kind: vscode.CodeActionKind): vscode.CodeAction | null {
+        const edit = this.createFixAllEdit(document);
+        if (!edit) {
+            return null;
+        }
+
+        const action = new vscode.CodeAction('🍐 Apply all Pear fixes in file', kind);
+        action.edit = edit;
+        return action;
+    }
+}
+
+/**
+ * Lists review comments in the Pear activity bar view, grouped and filtered
+ */
+export class ReviewCommentsTreeProvider implements vscode.TreeDataProvider<FindingTreeNode> {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<FindingTreeNode | undefined>();
+    private grouping: FindingGrouping;
+    private visibleSeverities: Set<ReviewComment['severity']>;
+
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    constructor(private reviewService: ReviewService, private state: vscode.Memento) {
+        this.grouping = state.get<FindingGrouping>('pearReview.findingGrouping', 'file');
+        this.visibleSeverities = new Set(state.get<ReviewComment['severity'][]>(
+            'pearReview.findingSeverities',
+            [...SEVERITY_ORDER]
+        ));
+        reviewService.onDidChangeReviews(() => this.refresh());
+    }
+
+    getTreeItem(node: FindingTreeNode): vscode.TreeItem {
+        if (node.kind === 'group') {
+            const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+            item.id = node.id;
+            item.description = `${node.reviews.length}`;
+            item.contextValue = 'pearReviewGroup';
+            if (node.uri) {
+                item.resourceUri = node.uri;
+                item.iconPath = vscode.ThemeIcon.File;
+            } else if (this.grouping === 'category') {
+                item.iconPath = new vscode.ThemeIcon('tag');
+            } else {
+                item.iconPath = this.getSeverityIcon(node.id as ReviewComment['severity']);
+            }
+            return item;
+        }
+
+        const { review } = node;
+        const item = new vscode.TreeItem(review.message, vscode.TreeItemCollapsibleState.None);
+        item.description = this.grouping === 'file'
+            ? `Ln ${review.range.start.line + 1}`
+            : `${review.filePath}:${review.range.start.line + 1}`;
+        if (review.stale) {
+            item.description += ' · outdated';
+        }
+        const category = review.category ? ` · ${CATEGORY_LABELS[review.category] ?? review.category}` : '';
+        item.tooltip = new vscode.MarkdownString(`**${review.severity}**${category} · ${review.filePath}:${review.range.start.line + 1}\n\n${review.message}`);
+        item.iconPath = this.getSeverityIcon(review.severity);
+        item.contextValue = 'pearReviewFinding';
+        item.command = {
+            command: 'pear-review.openFinding',
+            title: 'Open Finding',
+            arguments: [review]
+        };
+        return item;
+    }
+
+    getChildren(node?: FindingTreeNode): FindingTreeNode[] {
+        if (node) {
+            return node.kind === 'group'
+                ? node.reviews.map(review => ({ kind: 'finding', review }))
+                : [];
+        }
+        return this.getGroups();
+    }
+
+    /** Returns the visible findings in the order they appear in the view */
+    getVisibleReviews(): ReviewComment[] {
+        return this.getGroups().flatMap(group => group.kind === 'group' ? group.reviews : []);
+    }
+
+    getTotalCount(): number {
+        return this.reviewService.getAllReviews().length;
+    }
+
+    getGrouping(): FindingGrouping {
+        return this.grouping;
+    }
+
+    async setGrouping(grouping: FindingGrouping): Promise<void> {
+        this.grouping = grouping;
+        await this.state.update('pearReview.findingGrouping', grouping);
+        this.refresh();
+    }
+
+    getVisibleSeverities(): ReviewComment['severity'][] {
+        return SEVERITY_ORDER.filter(severity => this.visibleSeverities.has(severity));
+    }
+
+    async setVisibleSeverities(severities: ReviewComment['severity'][]): Promise<void> {
+        this.visibleSeverities = new Set(severities);
+        await this.state.update('pearReview.findingSeverities', severities);
+        this.refresh();
+    }
+
+    refresh(): void {
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    private getGroups(): FindingTreeNode[] {
+        const reviews = this.reviewService.getAllReviews()
+            .filter(review => this.visibleSeverities.has(review.severity));
+
+        if (this.grouping === 'severity') {
+            return SEVERITY_ORDER
+                .map(severity => ({
+                    kind: 'group' as const,
+                    id: severity,
+                    label: SEVERITY_LABELS[severity],
+                    reviews: reviews.filter(review => review.severity === severity)
+                }))
+                .filter(group => group.reviews.length > 0);
+        }
+
+        if (this.grouping === 'category') {
+            return [...Object.keys(CATEGORY_LABELS), undefined]
+                .map(category => ({
+                    kind: 'group' as const,
+                    id: category ?? 'uncategorized',
+                    label: category ? CATEGORY_LABELS[category] : 'Uncategorized',
+                    reviews: reviews.filter(review => review.category === category)
+                }))
+                .filter(group => group.reviews.length > 0);
+        }
+
+        const groups = new Map<string, FindingTreeNode & { kind: 'group' }>();
+        for (const review of reviews) {
+            const key = review.uri.toString();
+            const group = groups.get(key) ?? { kind: 'group', id: key, label: review.filePath, reviews: [], uri: review.uri };
+            group.reviews.push(review);
+            groups.set(key, group);
+        }
+        return [...groups.values()];
+    }
+
+    private getSeverityIcon(severity: ReviewComment['severity']): vscode.ThemeIcon {
+        const icons: Record<ReviewComment['severity'], vscode.ThemeIcon> = {
+            'error': new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground')),
+            'warning': new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground')),
+            'info': new vscode.ThemeIcon('info', new vscode.ThemeColor('problemsInfoIcon.foreground'))
+        };
+        return icons[severity];
+    }
+
+    dispose() {
+        this.onDidChangeTreeDataEmitter.dispose();
+    }
+}
+
+/**
+ * Shows review comments as conversation threads through the VS Code Comments API
+ */
+export class ReviewCommentThreadProvider implements vscode.Disposable {
+    private readonly commentController: vscode.CommentController;
+    private readonly threads = new Map<vscode.CommentThread, ReviewComment>();
+    private readonly pendingAnswers = new Map<vscode.CommentThread, vscode.CancellationTokenSource>();  // One follow-up per thread
+    private readonly subscription: vscode.Disposable;
+    private isVisible = true;
+
+    constructor(private reviewService: ReviewService) {
+        this.commentController = vscode.comments.createCommentController('pear-review', '🍐 Pear Review');
+        this.commentController.options = {
+            prompt: 'Ask Pear about this comment',
+            placeHolder: 'Ask a follow-up question...'
+        };
+        this.subscription = reviewService.onDidChangeReviews(() => this.refresh());
+    }
+
+    setVisible(visible: boolean): void {
+        this.isVisible = visible;
+        this.refresh();
+    }
+
+    /** Syncs threads with the current reviews, keeping the conversations of unchanged ones */
+    refresh(): void {
+        const displayMode = vscode.workspace.getConfiguration('pearReview').get<string>('displayMode', 'diagnostics');
+        const reviews = this.isVisible && displayMode !== 'diagnostics'
+            ? this.reviewService.getAllReviews()
+            : [];
+
+        const current = new Set(reviews);
+        for (const [thread, review] of this.threads) {
+            if (!current.has(review)) {
+                this.pendingAnswers.get(thread)?.cancel();
+                thread.dispose();
+                this.threads.delete(thread);
+            } else if (!thread.range.isEqual(review.range)) {
+                // The comment moved with an edit
+                thread.range = review.range;
+                thread.label = this.getThreadLabel(review);
+            }
+        }
+
+        const shown = new Set(this.threads.values());
+        for (const review of reviews) {
+            if (!shown.has(review)) {
+                this.createThread(review);
+            }
+        }
+    }
+
+    /** Answers a reply in a Pear thread with a follow-up from the model */
+    async reply(reply: vscode.CommentReply): Promise<void> {
+        const { thread } = reply;
+        const review = this.threads.get(thread);
+        const question = reply.text.trim();
+        if (!review || !question) {
+            return;
+        }
+
+        const conversation = thread.comments.map(comment => ({
+            role: comment.author.name === PEAR_AUTHOR.name ? 'pear' as const : 'developer' as const,
+            text: typeof comment.body === 'string' ? comment.body : comment.body.value
+        }));
+
+        const answer = this.createComment(PEAR_AUTHOR, '$(loading~spin) Thinking...');
+        thread.comments = [...thread.comments, this.createComment({ name: 'You' }, question), answer];
+
+        // A new question replaces the one still being answered
+        this.pendingAnswers.get(thread)?.cancel();
+        const cancellation = new vscode.CancellationTokenSource();
+        this.pendingAnswers.set(thread, cancellation);
+
+        try {
+            const response = await this.reviewService.askFollowUp(review, conversation, question, cancellation.token);
+
+            let text = '';
+            for await (const chunk of response) {
+                text += chunk;
+                answer.body = new vscode.MarkdownString(text);
+                // Reassigning the comments is what makes VS Code re-render the thread
+                thread.comments = [...thread.comments];
+            }
+            if (cancellation.token.isCancellationRequested) {
+                answer.body = new vscode.MarkdownString(`${text}\n\n*🍐 I stopped here to answer your newer question.*`);
+                thread.comments = [...thread.comments];
+            }
+        } catch (error) {
+            answer.body = cancellation.token.isCancellationRequested
+                ? '🍐 I stopped here to answer your newer question.'
+                : "🍐 I couldn't come up with an answer right now. Please try again!";
+            thread.comments = [...thread.comments];
+        } finally {
+            if (this.pendingAnswers.get(thread) === cancellation) {
+                this.pendingAnswers.delete(thread);
+            }
+            cancellation.dispose();
+        }
+    }
+
+    private createThread(review: ReviewComment): void {
+        const thread = this.commentController.createCommentThread(
+            review.uri,
+            review.range,
+            [this.createComment(PEAR_AUTHOR, this.formatReview(review))]
+        );
+        thread.label = this.getThreadLabel(review);
+        thread.canReply = true;
+        thread.contextValue = 'pearReviewThread';
+        thread.collapsibleState = review.severity === 'error'
+            ? vscode.CommentThreadCollapsibleState.Expanded
+            : vscode.CommentThreadCollapsibleState.Collapsed;
+        this.threads.set(thread, review);
+    }
+
+    private getThreadLabel(review: ReviewComment): string {
+        return review.stale ? `🍐 ${review.severity} (outdated)` : `🍐 ${review.severity}`;
+    }
+
+    private createComment(author: vscode.CommentAuthorInformation, body: string): vscode.Comment {
+        const markdown = new vscode.MarkdownString(body, true);
+        return { author, body: markdown, mode: vscode.CommentMode.Preview };
+    }
+
+    private formatReview(review: ReviewComment): string {
+        let body = review.praise ? `🌟 *${review.praise}*\n\n${review.message}` : review.message;
+
+        if (review.suggestions?.length) {
+            body += '\n\n**Suggestions**';
+            for (const suggestion of review.suggestions) {
+                body += `\n\n${suggestion.description}\n\n${fenceCode(suggestion.code)}`;
+            }
+        }
+
+        return body;
+    }
+
+    dispose() {
+        for (const cancellation of this.pendingAnswers.values()) {
+            cancellation.cancel();
+        }
+        this.subscription.dispose();
+        this.threads.clear();
+        this.commentController.dispose();
+    }
+}
+
+/**
+ * Serves read-only documents showing files as they were at a Git revision
+ */
+export class RevisionContentProvider implements vscode.TextDocumentContentProvider {
+    constructor(private gitService: GitService) {}
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        try {
+            return await this.gitService.getFileAtRevision(uri);
+        } catch (error) {
+            return '';
+        }
+    }
+}
+
+/**
+ * Serves read-only previews of files with a suggested fix applied
+ */
+export class ReviewPreviewProvider implements vscode.TextDocumentContentProvider {
+    private readonly previews = new Map<string, string>();
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private readonly documentCloseSubscription: vscode.Disposable;
+    private previewCount = 0;
+
+    readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor() {
+        // Each preview gets its own URI, so its content is never needed again once the diff is closed
+        this.documentCloseSubscription = vscode.workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === PREVIEW_SCHEME) {
+                this.previews.delete(document.uri.toString());
+            }
+        });
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.previews.get(uri.toString()) ?? '';
+    }
+
+    /** Opens a diff between the document and its content with the suggestion applied */
+    async showFixPreview(document: vscode.TextDocument, range: vscode.Range, suggestion: ReviewSuggestion): Promise<void> {
+        const original = document.getText();
+        const fixed = original.slice(0, document.offsetAt(range.start)) +
+            suggestion.code +
+            original.slice(document.offsetAt(range.end));
+
+        const previewUri = vscode.Uri.from({
+            scheme: PREVIEW_SCHEME,
+            path: document.uri.path,
+            query: `preview=${++this.previewCount}`
+        });
+        this.previews.set(previewUri.toString(), fixed);
+        this.onDidChangeEmitter.fire(previewUri);
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            document.uri,
+            previewUri,
+            `🍐 ${path.basename(document.uri.fsPath)} ↔ ${suggestion.description}`
+        );
+    }
+
+    dispose() {
+        this.previews.clear();
+        this.documentCloseSubscription.dispose();
+        this.onDidChangeEmitter.dispose();
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Constants
+// ═══════════════════════════════════════════════════════════════════════════
+
+const DIAGNOSTIC_SOURCE = '🍐 Pear Review';
+
+/** Common words ignored when comparing the topics of two messages */
+const TOPIC_STOPWORDS = new Set([
+    'this', 'that', 'these', 'those', 'with', 'from', 'have', 'will', 'would', 'could', 'should',
+    'your', 'here', 'there', 'which', 'when', 'where', 'what', 'about', 'into', 'than', 'then',
+    'also', 'make', 'more', 'some', 'like', 'just', 'consider', 'might', 'using'
+]);
+
+const DECISION_LABELS: Record<FindingDecision, string> = {
+    'resolved': 'Resolved',
+    'dismissed': 'Dismissed',
+    'wontFix': "Won't fix"
+};
+
+const PREVIEW_SCHEME = 'pear-review-preview';
+
+const REVISION_SCHEME = 'pear-review-revision';
+
+/** Limits of the search for nested repositories and submodules in each workspace folder */
+const NESTED_REPOSITORY_SEARCH = { maxResults: 100, maxDepth: 8, maxDirectories: 5000 };
+
+/** Symbol kinds whose callers are shown to the model when their code changes */
+const CALLABLE_SYMBOL_KINDS = new Set([
+    vscode.SymbolKind.Function,
+    vscode.SymbolKind.Method,
+    vscode.SymbolKind.Constructor,
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Enum
+]);
+
+/** Identifiers looked up per file when searching for definitions in other files */
+const MAX_DEFINITION_LOOKUPS = 40;
+
+/** Definition lookups sent to the language server at once */
+const DEFINITION_LOOKUP_BATCH_SIZE = 4;
+
+/** Semantic token types that never name something defined elsewhere */
+const NON_IDENTIFIER_TOKEN_TYPES = new Set(['comment', 'string', 'keyword', 'number', 'regexp', 'operator', 'parameter', 'typeParameter', 'label']);
+
+/** Semantic token modifiers of names declared in the reviewed file itself */
+const LOCAL_TOKEN_MODIFIERS = new Set(['declaration', 'local']);
+
+/** Changed symbols per file whose callers are looked up */
+const MAX_CHANGED_SYMBOLS = 10;
+
+/** Call sites shown per changed symbol */
+const MAX_CALLERS_PER_SYMBOL = 3;
+
+/** Lines shown above and below each call site */
+const CALLER_CONTEXT_LINES = 2;
+
+/** Longest definition shown from another file, in lines */
+const MAX_RELATED_CODE_LINES = 30;
+
+/** Upper bound on files reviewed from a folder picked in the Explorer */
+const MAX_FOLDER_FILES = 200;
+
+/** Bump when the persisted review format changes to discard old stores */
+const REVIEW_STORE_VERSION = 1;
+
+/** Bump when the stored history format changes */
+const HISTORY_STORE_VERSION = 1;
+
+/** Review runs kept in the history; the oldest are dropped first */
+const MAX_HISTORY_ENTRIES = 2000;
+
+/** Identifies the dashboard panel in `when` clauses */
+const DASHBOARD_VIEW_TYPE = 'pearReview.dashboard';
+
+const API_KEY_SECRET = 'pearReview.openAICompatible.apiKey';
+
+const PEAR_AUTHOR: vscode.CommentAuthorInformation = { name: '🍐 Pear' };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Main Controller
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Main controller for the Pear Review extension.
+ * Manages the lifecycle and coordinates between services.
+ */
+class PearReviewController {
+    private readonly reviewService: ReviewService;
+    private readonly prerequisiteService: PrerequisiteService;
+    private readonly gitService: GitService;
+    private readonly modelProviderService: ModelProviderService;
+    private readonly projectConfigService: ProjectConfigService;
+    private readonly personaService: PersonaService;
+    private readonly log: vscode.LogOutputChannel;
+    private readonly suppressionService: SuppressionService;
+    private readonly codeActionProvider: ReviewCodeActionProvider;
+    private readonly previewProvider: ReviewPreviewProvider;
+    private readonly findingsTreeProvider: ReviewCommentsTreeProvider;
+    private readonly findingsTreeView: vscode.TreeView<FindingTreeNode>;
+    private readonly threadProvider: ReviewCommentThreadProvider;
+    private readonly historyService: ReviewHistoryService;
+    private readonly statusItems: {
+        review: vscode.StatusBarItem;
+        persona: vscode.StatusBarItem;
+        diagnostic: vscode.StatusBarItem;
+    };
+    
+    private readonly autoReviewQueue: AutoReviewQueue;
+    private autoReviewDisposable: vscode.Disposable | undefined;
+    private isDiagnosticsVisible: boolean = true;
+    private dashboardPanel: vscode.WebviewPanel | undefined;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.log = vscode.window.createOutputChannel('Pear Review', { log: true });
+        this.gitService = new GitService();
+        this.projectConfigService = new ProjectConfigService();
+        this.modelProviderService = new ModelProviderService(context.secrets, this.projectConfigService, context.globalState);
+        this.prerequisiteService = new PrerequisiteService(this.gitService, this.modelProviderService);
+        this.suppressionService = new SuppressionService(context.workspaceState);
+        this.personaService = new PersonaService();
+        this.reviewService = new ReviewService(
+            this.modelProviderService,
+            new ReviewStore(context.storageUri),
+            this.suppressionService,
+            this.projectConfigService,
+            this.personaService,
+            new RelatedCodeService(),
+            this.log
+        );
+        this.codeActionProvider = new ReviewCodeActionProvider(this.reviewService);
+        this.previewProvider = new ReviewPreviewProvider();
+        this.findingsTreeProvider = new ReviewCommentsTreeProvider(this.reviewService, context.workspaceState);
+        this.findingsTreeView = vscode.window.createTreeView('pearReview.findings', {
+            treeDataProvider: this.findingsTreeProvider,
+            showCollapseAll: true
+        });
+        this.updateFindingsView();
+        this.threadProvider = new ReviewCommentThreadProvider(this.reviewService);
+        this.historyService = new ReviewHistoryService(context.globalStorageUri);
+        this.autoReviewQueue = new AutoReviewQueue(
+            keys => this.performAutoReview(keys.map(key => vscode.Uri.parse(key))),
+            () => {
+                const config = vscode.workspace.getConfiguration('pearReview');
+                return {
+                    delayMs: config.get<number>('autoReviewDelay', 1000),
+                    idleMs: config.get<number>('autoReviewIdleSeconds', 0) * 1000
+                };
+            }
+        );
+
+        context.subscriptions.push(
+            vscode.languages.registerCodeActionsProvider(
+                { scheme: 'file' },
+                this.codeActionProvider,
+                { providedCodeActionKinds: ReviewCodeActionProvider.providedCodeActionKinds }
+            ),
+            vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, this.previewProvider),
+            vscode.workspace.registerTextDocumentContentProvider(REVISION_SCHEME, new RevisionContentProvider(this.gitService)),
+            this.findingsTreeView,
+            this.findingsTreeProvider,
+            this.findingsTreeProvider.onDidChangeTreeData(() => this.updateFindingsView()),
+            this.reviewService.onDidChangeReviews(() => this.updateDiagnosticStatusBar()),
+            this.reviewService.onDidCompleteRun(result => this.recordRun(result)),
+            this.threadProvider,
+            this.previewProvider,
+            this.reviewService,
+            this.projectConfigService,
+            this.log,
+            // Rediscover repositories and project configs when folders are added to or removed from the workspace
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                this.gitService.reset();
+                this.projectConfigService.reload();
+            })
+        );
+
+        // Initialize and show status bar items
+        this.statusItems = {
+            review: vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100),
+            persona: vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99),
+            diagnostic: vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99)
+        };
+
+        this.statusItems.review.name = "Pear Review";
+        this.statusItems.review.text = "$(checklist) Review";
+        this.statusItems.review.tooltip = "Let your friendly Pear review your code changes";
+        this.statusItems.review.command = 'pear-review.reviewChanges';
+        this.statusItems.review.show();
+
+        this.statusItems.persona.name = "Pear Review Persona";
+        this.statusItems.persona.command = 'pear-review.selectPersona';
+        this.updatePersonaStatusBar();
+        this.statusItems.persona.show();
+
+        this.statusItems.diagnostic.name = "Pear Review Review Comments";
+        this.updateDiagnosticStatusBar();
+        this.statusItems.diagnostic.command = 'pear-review.toggleReviewComments';
+
+        context.subscriptions.push(this.statusItems.review, this.statusItems.persona, this.statusItems.diagnostic);
+
+        // Initially assume ready, will check on first use
+        vscode.commands.executeCommand('setContext', 'pearReview.isReady', true);
+        
+        // Setup auto-review configuration watcher
+        this.setupAutoReview();
+
+        // Initialize diagnostics visibility
+        this.updateDiagnosticVisibility();
+
+        // Bring back the comments from before the window was reloaded
+        this.reviewService.restoreFindings().then(
+            restored => restored && this.statusItems.diagnostic.show(),
+            () => undefined
+        );
+    }
+
+    // ═══════════════════════════════════════════════════════════════════════
+    // Public Methods
+    // ═══════════════════════════════════════════════════════════════════════
+
+    /** Initiates review of changed files */
+    async reviewChanges(): Promise<void> {
+        this.updateStatusBarProgress('checking');
+        
+        // Run prerequisite check when review is requested
+        if (!await this.prerequisiteService.checkAll()) {
+            this.updateStatusBarProgress('error');
+            return;
+        }
+
+        await this.reviewChangeSet(() => this.gitService.getChangedFiles(), undefined, 'HEAD');
+    }
+
+    /** Initiates review of the changes staged for the next commit */
+    async reviewStaged(): Promise<void> {
+        this.updateStatusBarProgress('checking');
+
+        if (!await this.prerequisiteService.checkAll()) {
+            this.updateStatusBarProgress('error');
+            return;
+        }
+
+        await this.reviewChangeSet(() => this.gitService.getStagedChanges(), undefined, 'HEAD');
+    }
+
+    /**
+     * Reviews the staged changes, then commits them with the Git extension.
+     * Depending on `pearReview.commitGate`, errors in the review or files it couldn't finish block the commit unless overridden, or only warn.
+     */
+    async commitWithReview(sourceControl?: vscode.SourceControl): Promise<void> {
+        const gate = vscode.workspace.getConfiguration('pearReview').get<string>('commitGate', 'block');
+        if (gate !== 'off' && !await this.passesCommitGate(gate === 'warn')) {
+            return;
+        }
+        await vscode.commands.executeCommand('git.commit', sourceControl);
+    }
+
+    /** Reviews the files selected in the Source Control view */
+    async reviewResources(...resourceStates: vscode.SourceControlResourceState[]): Promise<void> {
+        this.updateStatusBarProgress('checking');
+
+        if (!await this.prerequisiteService.checkAll()) {
+            this.updateStatusBarProgress('error');
+            return;
+        }
+
+        // Menus pass the clicked resource, then every selected one
+        const selected = [...new Map(resourceStates.flat().map(state => [state.resourceUri.toString(), state])).values()];
+        await this.reviewChangeSet(async () => selected, undefined, 'HEAD', true);
+    }
+
+    /** Reviews files and folders selected in the Explorer; folders are expanded with the project's include and exclude globs */
+    async reviewUris(uri?: vscode.Uri, selectedUris?: vscode.Uri[]): Promise<void> {
+        const uris = selectedUris?.length ? selectedUris : uri ? [uri] : [];
+        if (uris.length === 0) {
+            return;
+        }
+
+        this.updateStatusBarProgress('checking');
+
+        if (!await this.prerequisiteService.checkAll()) {
+            this.updateStatusBarProgress('error');
+            return;
+        }
+
+        await this.reviewChangeSet(() => this.openDocuments(uris), undefined, undefined, true);
+    }
+
+    /** Reviews the whole file open in the editor, whether or not it changed */
+    async reviewCurrentFile(uri?: vscode.Uri): Promise<void> {
+        let document = vscode.window.activeTextEditor?.document;
+        if (uri) {
+            try {
+                document = await vscode.workspace.openTextDocument(uri);
+            } catch (error) {
+                // E.g. a binary file, or one deleted since it was picked
+                vscode.window.showErrorMessage(`🍐 I couldn't open ${vscode.workspace.asRelativePath(uri)} to review it.`);
+                this.updateStatusBarProgress('error');
+                return;
+            }
+        }
+        if (!document) {
+            vscode.window.showInformationMessage("🍐 Open a file for me to review first!");
+            return;
+        }
+
+        this.updateStatusBarProgress('checking');
+
+        if (!await this.prerequisiteService.checkAll()) {
+            this.updateStatusBarProgress('error');
+            return;
+        }
+
+        await this.reviewChangeSet(async () => [document], undefined, undefined, true);
+    }
+
+    /** Reviews only the selected lines of the editor, with some surrounding lines for context */
+    async reviewSelection(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        const selections = editor?.selections.filter(selection => !selection.isEmpty) ?? [];
+        if (!editor || selections.length === 0) {
+            vscode.window.showInformationMessage("🍐 Select some code for me to review first!");
+            return;
+        }
+
+        this.updateStatusBarProgress('checking');
+
+        if (!await this.prerequisiteService.checkAll()) {
+            this.updateStatusBarProgress('error');
+            return;
+        }
+
+        // Lines are numbered as in the file, so the model's line numbers need no mapping
+        const reviewRanges = selections
+            .map(selection => ({
+                start: selection.start.line + 1,
+                // A selection ending at the start of a line doesn't include that line
+                end: selection.end.character === 0 && selection.end.line > selection.start.line
+                    ? selection.end.line
+                    : selection.end.line + 1
+            }))
+            .sort((a, b) => a.start - b.start);
+        const file: ReviewFile = {
+            uri: editor.document.uri,
+            content: editor.document.getText(),
+            reviewRanges
+        };
+
+        await this.reviewChangeSet(async () => [file], undefined, undefined, true);
+    }
+
+    /** Initiates review of the current branch against a base ref, PR-style */
+    async reviewBranch(pickBase: boolean = false): Promise<void> {
+        this.updateStatusBarProgress('checking');
+
+        if (!await this.prerequisiteService.checkAll()) {
+            this.updateStatusBarProgress('error');
+            return;
+        }
+
+        const configuredBase = vscode.workspace.getConfiguration('pearReview').get<string>('baseRef', 'origin/main');
+        const baseRef = pickBase || !configuredBase
+            ? await this.pickBaseRef(configuredBase)
+            : configuredBase;
+
+        if (!baseRef) {
+            this.updateStatusBarProgress('ready');
+            return;
+        }
+
+        await this.reviewChangeSet(() => this.gitService.getBranchChanges(baseRef), undefined, baseRef);
+    }
+
+    /** Initiates review of one commit, or a range of commits, picked from the history */
+    async reviewCommits(): Promise<void> {
+        this.updateStatusBarProgress('checking');
+
+        if (!await this.prerequisiteService.checkAll()) {
+            this.updateStatusBarProgress('error');
+            return;
+        }
+
+        const repository = await this.pickRepository();
+        if (!repository) {
+            this.updateStatusBarProgress('ready');
+            return;
+        }
+
+        let commits: CommitInfo[];
+        try {
+            commits = await this.gitService.getRecentCommits(repository);
+        } catch (error) {
+            this.updateStatusBarProgress('error');
+            vscode.window.showErrorMessage("🍐 I couldn't read the Git history.");
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            commits.map(commit => ({
+                label: commit.subject,
+                description: commit.shortHash,
+                detail: `${commit.author} · ${commit.date}`,
+                commit
+            })),
+            {
+                title: '🍐 Which commits should I review?',
+                placeHolder: 'Pick one commit, or several to review everything between them',
+                canPickMany: true,
+                matchOnDescription: true
+            }
+        );
+
+        if (!picked?.length) {
+            this.updateStatusBarProgress('ready');
+            return;
+        }
+
+        // The log is newest first, so the range spans from the first to the last picked index
+        const indexes = picked.map(item => commits.indexOf(item.commit));
+        const rangeCommits = commits.slice(Math.min(...indexes), Math.max(...indexes) + 1);
+        const newest = rangeCommits[0];
+        const oldest = rangeCommits[rangeCommits.length - 1];
+        const commitDetails = this.describeCommits(rangeCommits);
+
+        await this.reviewChangeSet(
+            () => this.gitService.getCommitChanges(repository, oldest.hash, newest.hash),
+            change => change.type === 'add'
+                ? commitDetails
+                : `${commitDetails}\n\nDiff of this file:\n${change.diff}`,
+            `${oldest.hash}^`
+        );
+    }
+
+    /** Toggles auto-review feature */
+    async toggleAutoReview(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('pearReview');
+        const currentValue = config.get<boolean>('autoReview');
+        await config.update('autoReview', !currentValue, true);
+        
+        vscode.window.showInformationMessage(
+            !currentValue ? 
+            "🍐 I'll now automatically review your code when you save!" :
+            "🍐 Auto-review disabled. Click the pear icon when you want a review!"
+        );
+    }
+
+    /** Toggles visibility of review diagnostics */
+    async toggleReviewComments(): Promise<void> {
+        this.isDiagnosticsVisible = !this.isDiagnosticsVisible;
+        this.updateDiagnosticVisibility();
+        this.updateDiagnosticStatusBar();
+    }
+
+    /** Opens the location of a review comment */
+    async openFinding(review: ReviewComment): Promise<void> {
+        try {
+            await vscode.window.showTextDocument(review.uri, {
+                selection: review.range,
+                preserveFocus: false
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`🍐 I couldn't open ${review.filePath}.`);
+        }
+    }
+
+    /** Records a decision on a finding picked from the editor or the Review Comments view */
+    async decideOnFinding(target: ReviewComment | FindingTreeNode | undefined, decision: FindingDecision): Promise<void> {
+        const review = target && 'kind' in target
+            ? (target.kind === 'finding' ? target.review : undefined)
+            : target;
+        if (!review) {
+            return;
+        }
+
+        let reason: string | undefined;
+        if (decision === 'wontFix') {
+            reason = await vscode.window.showInputBox({
+                title: "🍐 Why won't this be fixed?",
+                prompt: review.message,
+                placeHolder: 'e.g. Intended behavior, tracked elsewhere, legacy code...',
+                ignoreFocusOut: true
+            });
+            if (reason === undefined) {
+                return;
+            }
+        }
+
+        await this.reviewService.decideOnReview(review, decision, reason || undefined);
+    }
+
+    /** Sends a reply typed in a Pear comment thread to the model */
+    async replyToThread(reply: vscode.CommentReply): Promise<void> {
+        await this.threadProvider.reply(reply);
+    }
+
+    /** Lists remembered decisions and restores the picked findings */
+    async showSuppressedFindings(): Promise<void> {
+        const suppressed = this.suppressionService.getSuppressedFindings();
+        if (suppressed.length === 0) {
+            vscode.window.showInformationMessage("🍐 You haven't set any review comments aside.");
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            suppressed.map(finding => ({
+                label: finding.message,
+                description: `${DECISION_LABELS[finding.decision]} · ${finding.filePath}`,
+                detail: finding.reason ? `Reason: ${finding.reason}` : undefined,
+                fingerprint: finding.fingerprint
+            })),
+            {
+                title: '🍐 Suppressed review comments',
+                placeHolder: 'Pick the comments you want me to bring up again',
+                canPickMany: true,
+                matchOnDescription: true
+            }
+        );
+
+        if (picked?.length) {
+            await this.suppressionService.restore(picked.map(item => item.fingerprint));
+            vscode.window.showInformationMessage(
+                `🍐 Restored ${picked.length} comment${picked.length === 1 ? '' : 's'}. They'll show up again in the next review.`
+            );
+        }
+    }
+
+    /** Jumps to the next or previous review comment shown in the Review Comments view */
+    async navigateFinding(direction: 1 | -1): Promise<void> {
+        const reviews = this.findingsTreeProvider.getVisibleReviews();
+        if (reviews.length === 0) {
+            vscode.window.showInformationMessage("🍐 There are no review comments to go through.");
+            return;
+        }
+
+        const editor = vscode.window.activeTextEditor;
+        const isInEditor = (review: ReviewComment) => review.uri.toString() === editor?.document.uri.toString();
+        const cursor = editor?.selection.start;
+
+        let index = cursor ? reviews.findIndex(review => isInEditor(review) && review.range.start.isEqual(cursor)) : -1;
+        if (index !== -1) {
+            index = (index + direction + reviews.length) % reviews.length;
+        } else if (direction === 1) {
+            // Continue from the cursor within the current file, otherwise start from the top
+            index = Math.max(reviews.findIndex(review => isInEditor(review) && review.range.start.isAfter(cursor!)), 0);
+        } else {
+            const before = reviews.map((review, i) => isInEditor(review) && review.range.start.isBefore(cursor!) ? i : -1)
+                .filter(i => i !== -1);
+            index = before.length > 0 ? before[before.length - 1] : reviews.length - 1;
+        }
+
+        await this.openFinding(reviews[index]);
+    }
+
+    /** Lets the user choose how the Review Comments view groups findings */
+    async groupFindings(): Promise<void> {
+        const current = this.findingsTreeProvider.getGrouping();
+        const options: { label: string; grouping: FindingGrouping }[] = [
+            { label: '$(file) Group by File', grouping: 'file' },
+            { label: '$(warning) Group by Severity', grouping: 'severity' },
+            { label: '$(tag) Group by Category', grouping: 'category' }
+        ];
+
+        const picked = await vscode.window.showQuickPick(
+            options.map(option => ({ ...option, description: option.grouping === current ? 'current' : undefined })),
+            { title: '🍐 Group review comments' }
+        );
+        if (picked) {
+            await this.findingsTreeProvider.setGrouping(picked.grouping);
+        }
+    }
+
+    /** Lets the user toggle which severities the Review Comments view shows */
+    async filterFindings(): Promise<void> {
+        const visible = this.findingsTreeProvider.getVisibleSeverities();
+        const picked = await vscode.window.showQuickPick(
+            SEVERITY_ORDER.map(severity => ({
+                label: SEVERITY_LABELS[severity],
+                severity,
+                picked: visible.includes(severity)
+            })),
+            { title: '🍐 Show review comments of these severities', canPickMany: true }
+        );
+        if (picked) {
+            await this.findingsTreeProvider.setVisibleSeverities(picked.map(item => item.severity));
+        }
+    }
+
+    /** Clears stored reviews so the next review starts fresh */
+    async clearCache(): Promise<void> {
+        await this.reviewService.clearCache();
+        vscode.window.showInformationMessage("🍐 All cleared! My next review will take a fresh look.");
+    }
+
+    /** Stores or clears the API key for the OpenAI-compatible model server */
+    async setApiKey(): Promise<void> {
+        const apiKey = await vscode.window.showInputBox({
+            title: '🍐 API key for your OpenAI-compatible model server',
+            prompt: 'Leave empty to remove the stored key',
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (apiKey === undefined) {
+            return;
+        }
+
+        await this.modelProviderService.setApiKey(apiKey);
+        vscode.window.showInformationMessage(apiKey ? "🍐 API key saved!" : "🍐 API key removed.");
+    }
+
+    /** Writes the current review comments to a report file in a format picked by the user */
+    async exportReview(): Promise<void> {
+        const reviews = this.reviewService.getAllReviews();
+        if (reviews.length === 0) {
+            vscode.window.showInformationMessage("🍐 There are no review comments to export yet. Run a review first!");
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            (Object.keys(REPORT_FORMATS) as ReportFormat[]).map(format => ({
+                label: REPORT_FORMATS[format].label,
+                description: REPORT_FORMATS[format].description,
+                format
+            })),
+            { title: '🍐 Export the review as...' }
+        );
+        if (!picked) {
+            return;
+        }
+
+        const { extension, label } = REPORT_FORMATS[picked.format];
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder && vscode.Uri.joinPath(folder, `pear-review.${extension}`),
+            filters: { [label]: [extension] },
+            title: 'Export Pear Review'
+        });
+        if (!target) {
+            return;
+        }
+
+        try {
+            let repositories: RepositoryState[] = [];
+            if (await this.gitService.initialize()) {
+                repositories = await this.gitService.getRepositoryStates();
+            }
+
+            // Comments of several runs can be shown at once, e.g. after reviewing single files
+            const runs = new Map<string, ReviewRunInfo>();
+            for (const review of reviews) {
+                if (review.run) {
+                    runs.set(`${review.run.startedAt}\0${review.run.baseRef ?? ''}`, review.run);
+                }
+            }
+
+            const comments = reviews.map(review => this.toReportComment(review));
+            const report = new ReviewReportExporter().render(picked.format, comments, {
+                toolVersion: this.context.extension.packageJSON.version,
+                generatedAt: new Date().toISOString(),
+                runs: [...runs.values()].sort((a, b) => a.startedAt.localeCompare(b.startedAt)),
+                repositories
+            });
+            await vscode.workspace.fs.writeFile(target, Buffer.from(report, 'utf8'));
+
+            const action = await vscode.window.showInformationMessage(
+                `🍐 Exported ${reviews.length} review comment${reviews.length === 1 ? '' : 's'}.`,
+                'Open'
+            );
+            if (action === 'Open') {
+                await vscode.window.showTextDocument(target);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage("🍐 I couldn't write the review report.");
+        }
+    }
+
+    /** The comment without editor objects, with 1-based positions */
+    private toReportComment(review: ReviewComment): ReportComment {
+        return {
+            filePath: review.filePath,
+            // Code scanning tools expect paths relative to the workspace folder
+            relativePath: vscode.workspace.asRelativePath(review.uri.with({ scheme: 'file', query: '' }), false),
+            workspaceFolder: review.workspaceFolder,
+            line: review.range.start.line + 1,
+            column: review.range.start.character + 1,
+            endLine: review.range.end.line + 1,
+            endColumn: review.range.end.character + 1,
+            severity: review.severity,
+            category: review.category,
+            message: review.message,
+            code: review.code,
+            suggestions: review.suggestions ?? [],
+            praise: review.praise,
+            outdated: review.stale ?? false
+        };
+    }
+
+    /** Opens the dashboard of the review history, or brings it to the front */
+    async showDashboard(): Promise<void> {
+        if (this.dashboardPanel) {
+            this.dashboardPanel.reveal();
+            return;
+        }
+
+        this.dashboardPanel = vscode.window.createWebviewPanel(DASHBOARD_VIEW_TYPE, '🍐 Review History', vscode.ViewColumn.Active);
+        this.dashboardPanel.onDidDispose(() => this.dashboardPanel = undefined);
+        await this.refreshDashboard();
+    }
+
+    /** Saves the whole review history as JSON */
+    async exportHistory(): Promise<void> {
+        const entries = await this.historyService.getEntries();
+        if (entries.length === 0) {
+            vscode.window.showInformationMessage("🍐 There's no review history to export yet.");
+            return;
+        }
+
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder && vscode.Uri.joinPath(folder, 'pear-review-history.json'),
+            filters: { JSON: ['json'] },
+            title: 'Export Pear Review History'
+        });
+        if (!target) {
+            return;
+        }
+
+        try {
+            const history = { exportedAt: new Date().toISOString(), entries };
+            await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(history, null, 2), 'utf8'));
+            vscode.window.showInformationMessage(`🍐 Exported ${entries.length} review run${entries.length === 1 ? '' : 's'}.`);
+        } catch (error) {
+            vscode.window.showErrorMessage("🍐 I couldn't write the review history.");
+        }
+    }
 
-// ═══════════════════════════════════════════════════════════════════════════
-// Main Controller
-// ═══════════════════════════════════════════════════════════════════════════
+    async clearHistory(): Promise<void> {
+        const confirmed = await vscode.window.showWarningMessage(
+            '🍐 Forget the review history of every repository?',
+            { modal: true },
+            'Clear History'
+        );
+        if (confirmed !== 'Clear History') {
+            return;
+        }
 
-/**
- * Main controller for the Pear Review extension.
- * Manages the lifecycle and coordinates between services.
- */
-class PearReviewController {
-    private readonly reviewService: ReviewService;
-    private readonly prerequisiteService: PrerequisiteService;
-    private readonly gitService: GitService;
-    private readonly statusItems: {
-        review: vscode.StatusBarItem;
-        diagnostic: vscode.StatusBarItem;
-    };
-    
-    private autoSaveDisposable: vscode.Disposable | undefined;
-    private reviewDebounceTimer: NodeJS.Timeout | undefined;
-    private isDiagnosticsVisible: boolean = true;
+        await this.historyService.clear();
+        await this.refreshDashboard();
+    }
 
-    constructor(private context: vscode.ExtensionContext) {
-        this.gitService = new GitService();
-        this.prerequisiteService = new PrerequisiteService(this.gitService);
-        this.reviewService = new ReviewService();
+    /** Shows the log of review runs, including comments that were dropped and why */
+    showLog(): void {
+        this.log.show();
+    }
 
-        // Initialize and show status bar items
-        this.statusItems = {
-            review: vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100),
-            diagnostic: vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99)
-        };
+    /** Lets the user pick the persona that reviews their code */
+    async selectPersona(): Promise<void> {
+        const activePersona = this.personaService.getActivePersona();
+        const picked = await vscode.window.showQuickPick(
+            this.personaService.getPersonas().map(persona => ({
+                label: persona.label,
+                description: persona.id === activePersona.id ? `${persona.description} · current` : persona.description,
+                persona
+            })),
+            { title: '🍐 Who should review your code?' }
+        );
+        if (!picked) {
+            return;
+        }
 
-        this.statusItems.review.name = "Pear Review";
-        this.statusItems.review.text = "$(checklist) Review";
-        this.statusItems.review.tooltip = "Let your friendly Pear review your code changes";
-        this.statusItems.review.command = 'pear-review.reviewChanges';
-        this.statusItems.review.show();
+        await this.personaService.setActivePersona(picked.persona.id);
+    }
 
-        this.statusItems.diagnostic.name = "Pear Review Review Comments";
-        this.updateDiagnosticStatusBar();
-        this.statusItems.diagnostic.command = 'pear-review.toggleReviewComments';
+    /** Applies the preferred suggestion of every review in the given or active file */
+    async applyAllFixes(uri?: vscode.Uri): Promise<void> {
+        const targetUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!targetUri) {
+            vscode.window.showInformationMessage("🍐 Open a file and I'll apply my suggestions to it!");
+            return;
+        }
 
-        context.subscriptions.push(this.statusItems.review, this.statusItems.diagnostic);
+        const document = await vscode.workspace.openTextDocument(targetUri);
+        const edit = this.codeActionProvider.createFixAllEdit(document);
+        if (!edit) {
+            vscode.window.showInformationMessage("🍐 I don't have any fixes for this file right now.");
+            return;
+        }
 
-        // Initially assume ready, will check on first use
-        vscode.commands.executeCommand('setContext', 'pearReview.isReady', true);
-        
-        // Setup auto-review configuration watcher
-        this.setupAutoReview();
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage("🍐 I couldn't apply the fixes. Has the file changed since the review?");
+        }
+    }
 
-        // Initialize diagnostics visibility
-        this.updateDiagnosticVisibility();
+    /** Shows a suggested fix as a diff against the current file */
+    async previewFix(uri: vscode.Uri, range: vscode.Range, suggestion: ReviewSuggestion): Promise<void> {
+        try {
+            const document = await vscode.workspace.openTextDocument(uri);
+            await this.previewProvider.showFixPreview(document, range, suggestion);
+        } catch (error) {
+            vscode.window.showErrorMessage("🍐 I couldn't preview that fix.");
+        }
     }
 
     // ═══════════════════════════════════════════════════════════════════════
-    // Public Methods
+    // Private Methods
     // ═══════════════════════════════════════════════════════════════════════
 
-    /** Initiates review of changed files */
-    async reviewChanges(): Promise<void> {
-        this.updateStatusBarProgress('checking');
-        
-        // Run prerequisite check when review is requested
-        if (!await this.prerequisiteService.checkAll()) {
-            this.updateStatusBarProgress('error');
-            return;
-        }
-
+    /**
+     * Gathers a set of changes and reviews them with progress reporting.
+     * Returns undefined when there was nothing to review or the review failed.
+     */
+    private async reviewChangeSet(
+        loadChanges: () => Promise<ReviewTarget>,
+        buildContext?: (change: FileChange) => string,
+        baseRef?: string,
+        partial: boolean = false
+    ): Promise<ReviewRunResult | undefined> {
+        // Automatic reviews wait until the user's own review is done
+        this.autoReviewQueue.pause();
         try {
-            await vscode.window.withProgress({
+            return await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: "🍐 Your friendly Pear is reviewing",
                 cancellable: true
-            }, async (progress) => {
+            }, async (progress, token) => {
                 this.updateStatusBarProgress('reviewing');
 
                 // Get changed files
-                progress.report({ message: "Gathering fresh changes 🌱", increment: 20 });
-                const changes = await this.gitService.getChangedFiles();
+                progress.report({ message: "Gathering fresh changes 🌱", increment: 10 });
+                const changes = await loadChanges();
                 
                 if (changes.length === 0) {
                     vscode.window.showInformationMessage("No changes found.");
                     this.updateStatusBarProgress('ready');
-                    return;
+                    return undefined;
                 }
 
-                // Prepare files
-                progress.report({ message: "Preparing files", increment: 20 });
-                
-                // Start review
-                progress.report({ message: "Starting review", increment: 20 });
-                await this.performReview(changes, progress);
+                if (token.isCancellationRequested) {
+                    this.updateStatusBarProgress('ready');
+                    return undefined;
+                }
 
-                this.updateStatusBarProgress('done');
+                // Prepare files and start the review
+                progress.report({ message: "Preparing files", increment: 10 });
+                const result = await this.performReview(changes, progress, token, buildContext, baseRef, partial);
+
+                this.updateStatusBarProgress(result?.cancelled ? 'ready' : 'done');
+                return result;
             });
         } catch (error) {
             this.updateStatusBarProgress('error');
-            vscode.window.showErrorMessage("An error occurred while reviewing changes.");
+            // Pear-worded errors and model server answers are meant for the user; anything else gets the generic message
+            const message = error instanceof ModelRequestError
+                ? `🍐 ${error.message}`
+                : error instanceof Error && error.message.startsWith('🍐')
+                    ? error.message
+                    : "An error occurred while reviewing changes.";
+            vscode.window.showErrorMessage(message);
+            return undefined;
+        } finally {
+            this.autoReviewQueue.resume();
         }
     }
 
-    /** Toggles auto-review feature */
-    async toggleAutoReview(): Promise<void> {
-        const config = vscode.workspace.getConfiguration('pearReview');
-        const currentValue = config.get<boolean>('autoReview');
-        await config.update('autoReview', !currentValue, true);
-        
-        vscode.window.showInformationMessage(
-            !currentValue ? 
-            "🍐 I'll now automatically review your code when you save!" :
-            "🍐 Auto-review disabled. Click the pear icon when you want a review!"
-        );
+    /** Reviews the staged changes and decides whether the commit may go ahead */
+    private async passesCommitGate(warnOnly: boolean): Promise<boolean> {
+        this.updateStatusBarProgress('checking');
+
+        let result: ReviewRunResult | undefined;
+        if (await this.prerequisiteService.checkAll()) {
+            try {
+                const changes = await this.gitService.getStagedChanges();
+                if (changes.length === 0) {
+                    // Nothing staged, the Git extension offers what to commit instead
+                    this.updateStatusBarProgress('ready');
+                    return true;
+                }
+                result = await this.reviewChangeSet(async () => changes, undefined, 'HEAD');
+            } catch (error) {
+                this.updateStatusBarProgress('error');
+            }
+        } else {
+            this.updateStatusBarProgress('error');
+        }
+
+        if (!result) {
+            return this.confirmCommit("🍐 I couldn't review your staged changes.");
+        }
+        if (result.cancelled) {
+            return false;
+        }
+
+        const errorCount = result.reviews.filter(review => review.severity === 'error').length;
+        const { skippedFiles } = result;
+        if (errorCount === 0 && skippedFiles.length === 0) {
+            return true;
+        }
+
+        // Files the token budget left unreviewed may hide errors, so they hold the commit back as well
+        const problems: string[] = [];
+        if (errorCount > 0) {
+            problems.push(`I found ${errorCount} error${errorCount === 1 ? '' : 's'} in your staged changes.`);
+        }
+        if (skippedFiles.length > 0) {
+            problems.push(`I ran out of token budget and couldn't fully review ${skippedFiles.length} staged file${skippedFiles.length === 1 ? '' : 's'}: ${skippedFiles.join(', ')}.`);
+        }
+        const message = `🍐 ${problems.join(' ')}`;
+        if (warnOnly) {
+            vscode.window.showWarningMessage(`${message} Committing anyway, as the commit gate only warns.`);
+            return true;
+        }
+        return this.confirmCommit(message);
     }
 
-    /** Toggles visibility of review diagnostics */
-    async toggleReviewComments(): Promise<void> {
-        this.isDiagnosticsVisible = !this.isDiagnosticsVisible;
-        this.updateDiagnosticVisibility();
-        this.updateDiagnosticStatusBar();
+    /** Asks whether to commit despite the gate; the commit only goes ahead on an explicit "Commit Anyway" */
+    private async confirmCommit(message: string): Promise<boolean> {
+        const choice = await vscode.window.showErrorMessage(message, { modal: true }, 'Commit Anyway', 'Show Comments');
+        if (choice === 'Show Comments') {
+            await vscode.commands.executeCommand('pearReview.findings.focus');
+        }
+        return choice === 'Commit Anyway';
     }
 
-    // ═══════════════════════════════════════════════════════════════════════
-    // Private Methods
-    // ═══════════════════════════════════════════════════════════════════════
+    /** Opens the given files, and the files in the given folders, skipping what the project config excludes */
+    private async openDocuments(uris: vscode.Uri[]): Promise<vscode.TextDocument[]> {
+        const fileUris = new Map<string, vscode.Uri>();
+        for (const uri of uris) {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.type & vscode.FileType.Directory) {
+                // Leaves out what .gitignore lists or, outside a repository, what `files.exclude` hides
+                const folderFiles = await this.gitService.getFolderFiles(uri)
+                    ?? await vscode.workspace.findFiles(new vscode.RelativePattern(uri, '**/*'));
+                const includedFiles: vscode.Uri[] = [];
+                for (const file of folderFiles) {
+                    if (await this.projectConfigService.isIncluded(file)) {
+                        includedFiles.push(file);
+                    }
+                }
+                if (includedFiles.length > MAX_FOLDER_FILES) {
+                    throw new Error(`🍐 That's more than ${MAX_FOLDER_FILES} files! Pick a smaller folder, or narrow it down with "include" in .pearreview.json.`);
+                }
+                includedFiles.forEach(file => fileUris.set(file.toString(), file));
+            } else {
+                fileUris.set(uri.toString(), uri);
+            }
+        }
+
+        const documents: vscode.TextDocument[] = [];
+        for (const uri of fileUris.values()) {
+            if (!await this.projectConfigService.isIncluded(uri)) {
+                continue;
+            }
+            try {
+                documents.push(await vscode.workspace.openTextDocument(uri));
+            } catch (error) {
+                // Binary files can't be opened as text
+            }
+        }
+        return documents;
+    }
+
+    /** Summarizes commits for the model, newest first */
+    private describeCommits(commits: CommitInfo[]): string {
+        const descriptions = commits.map(commit => {
+            const body = commit.body.trim() ? `\n${commit.body.trim()}` : '';
+            return `commit ${commit.hash}\nAuthor: ${commit.author}\nDate: ${commit.date}\n\n${commit.subject}${body}`;
+        });
+        return `These changes come from the following commit${commits.length > 1 ? 's' : ''}:\n\n${descriptions.join('\n\n')}`;
+    }
+
+    /** Lets the user pick the ref to review the current branch against */
+    private async pickBaseRef(defaultRef: string): Promise<string | undefined> {
+        let branches: string[] = [];
+        try {
+            branches = await this.gitService.getBranches();
+        } catch (error) {
+            // Still offer the configured default
+        }
+
+        const items: vscode.QuickPickItem[] = [];
+        if (defaultRef) {
+            items.push({ label: defaultRef, description: 'default' });
+        }
+        items.push(...branches
+            .filter(branch => branch !== defaultRef)
+            .map(branch => ({ label: branch })));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            title: '🍐 Review the current branch against...',
+            placeHolder: 'Pick the base branch your changes will be merged into'
+        });
+        return picked?.label;
+    }
+
+    /** Asks which repository to use when the workspace contains more than one */
+    private async pickRepository(): Promise<GitRepository | undefined> {
+        const repositories = this.gitService.getRepositories();
+        if (repositories.length <= 1) {
+            return repositories[0];
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            repositories.map(repository => ({
+                label: repository.name,
+                description: vscode.workspace.asRelativePath(repository.root, true),
+                repository
+            })),
+            { title: '🍐 Which repository should I look at?' }
+        );
+        return picked?.repository;
+    }
 
     /** Sets up auto-review configuration and watchers */
     private setupAutoReview(): void {
         // Watch for configuration changes
         this.context.subscriptions.push(
             vscode.workspace.onDidChangeConfiguration(e => {
-                if (e.affectsConfiguration('pearReview.autoReview')) {
+                if (e.affectsConfiguration('pearReview.autoReview') || e.affectsConfiguration('pearReview.autoReviewOnFocusLost')) {
                     this.updateAutoReviewWatcher();
                 }
+                if (e.affectsConfiguration('pearReview.persona') || e.affectsConfiguration('pearReview.customPersonas')) {
+                    this.updatePersonaStatusBar();
+                }
+                if (e.affectsConfiguration('pearReview.displayMode')) {
+                    this.reviewService.refreshDiagnostics();
+                    this.threadProvider.refresh();
+                }
             })
         );
 
@@ -762,103 +3483,121 @@ class PearReviewController {
         this.updateAutoReviewWatcher();
     }
 
-    /** Updates the auto-review watcher based on configuration */
+    /** Updates the auto-review watchers based on configuration */
     private updateAutoReviewWatcher(): void {
         const config = vscode.workspace.getConfiguration('pearReview');
-        const isAutoReviewEnabled = config.get<boolean>('autoReview', false);
+        this.autoReviewDisposable?.dispose();
+        this.autoReviewDisposable = undefined;
 
-        if (isAutoReviewEnabled) {
-            if (!this.autoSaveDisposable) {
-                this.autoSaveDisposable = vscode.workspace.onDidSaveTextDocument(
-                    this.handleDocumentSave.bind(this)
-                );
-                this.context.subscriptions.push(this.autoSaveDisposable);
-            }
-        } else {
-            if (this.autoSaveDisposable) {
-                this.autoSaveDisposable.dispose();
-                this.autoSaveDisposable = undefined;
-            }
+        if (!config.get<boolean>('autoReview', false)) {
+            this.autoReviewQueue.clear();
+            return;
+        }
+
+        const watchers = [
+            vscode.workspace.onDidSaveTextDocument(document => this.handleDocumentSave(document)),
+            // Typing postpones reviews that wait for idle time
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document.uri.scheme === 'file' && event.contentChanges.length > 0) {
+                    this.autoReviewQueue.noteActivity();
+                }
+            })
+        ];
+        if (config.get<boolean>('autoReviewOnFocusLost', false)) {
+            watchers.push(vscode.window.onDidChangeWindowState(state => {
+                if (!state.focused) {
+                    this.autoReviewQueue.flush();
+                }
+            }));
         }
+        this.autoReviewDisposable = vscode.Disposable.from(...watchers);
     }
 
-    /** Handles document save events for auto-review */
+    /** Queues a saved file for automatic review when its uncommitted change is new and large enough */
     private async handleDocumentSave(document: vscode.TextDocument): Promise<void> {
         // Quick early return if not file scheme
         if (document.uri.scheme !== 'file') {
             return;
         }
+
+        // Saving without edits, or undoing back to what was reviewed, needs no new review
+        const key = document.uri.toString();
+        const hash = crypto.createHash('sha256').update(document.getText()).digest('hex');
+        if (this.autoReviewQueue.isUnchanged(key, hash)) {
+            return;
+        }
+
         try {
-            // Don't review if git isn't ready
-            if (!await this.checkPrerequisites()) {
+            if (!await this.gitService.initialize()) {
                 return;
             }
 
-            // Check if file is in git
-            const changes = await this.gitService.getChangedFiles();
-            const isGitTracked = changes.some(change => 
-                change.uri.fsPath === document.uri.fsPath
-            );
-
-            if (!isGitTracked) {
+            // Only this file's status and diff, not the whole repository's
+            const change = await this.gitService.getWorkingTreeChange(document.uri);
+            if (!change) {
                 return;
             }
 
-            // Debounce the review
-            if (this.reviewDebounceTimer) {
-                clearTimeout(this.reviewDebounceTimer);
+            const minChangedLines = vscode.workspace.getConfiguration('pearReview').get<number>('autoReviewMinChangedLines', 1);
+            const changedLines = change.type === 'add' ? change.newContent.split('\n').length : countChangedLines(change.diff ?? '');
+            if (changedLines < minChangedLines) {
+                this.log.debug(`${vscode.workspace.asRelativePath(document.uri)}: ${changedLines} changed lines, waiting for ${minChangedLines} before reviewing automatically`);
+                return;
             }
 
-            this.reviewDebounceTimer = setTimeout(async () => {
-                await this.performAutoReview([document]);
-            }, 1000);
-
+            this.autoReviewQueue.add(key, hash);
         } catch (error) {
-            vscode.window.showErrorMessage("An error occurred while saving the document.");
+            this.log.warn(`Couldn't check ${vscode.workspace.asRelativePath(document.uri)} for automatic review: ${error instanceof Error ? error.message : error}`);
         }
     }
 
-    /** Performs an automatic review of the given documents */
-    private async performAutoReview(documents: ReviewTarget): Promise<void> {
+    /** Performs an automatic review of the given files, with their changes read again at review time */
+    private async performAutoReview(uris: vscode.Uri[]): Promise<boolean> {
         this.updateStatusBarProgress('reviewing');
 
         try {
-            await vscode.window.withProgress({
+            if (!await this.checkPrerequisites()) {
+                this.updateStatusBarProgress('error');
+                return false;
+            }
+
+            const changes: FileChange[] = [];
+            for (const uri of uris) {
+                const change = await this.gitService.getWorkingTreeChange(uri);
+                if (change) {
+                    changes.push(change);
+                }
+            }
+
+            return await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: "🍐 Auto-reviewing your changes",
-                cancellable: false
-            }, async (progress) => {
-                let messageIndex = 0;
-                const progressInterval = setInterval(() => {
-                    progress.report({ 
-                        message: PEAR_MESSAGES.progress[messageIndex % PEAR_MESSAGES.progress.length],
-                        increment: 5
-                    });
-                    messageIndex++;
-                }, 2500);
-
-                try {
-                    const files = await this.prepareFilesForReview(documents);
-                    // No need to re-check files.length again if we exit early
-                    if (files.length === 0) {
-                        this.updateStatusBarProgress('ready');
-                        clearInterval(progressInterval);
-                        return;
-                    }
-
-                    progress.report({ message: "Analyzing your fresh changes 🔍", increment: 30 });
-                    await this.reviewService.reviewFiles(files);
-                    progress.report({ message: "Adding pear-fect suggestions ✨", increment: 20 });
-                    
-                    // Don't show completion message, but update status bar
-                    this.updateStatusBarProgress('done');
-                } finally {
-                    clearInterval(progressInterval);
+                cancellable: true
+            }, async (progress, token) => {
+                const files = await this.prepareFilesForReview(changes);
+                if (files.length === 0) {
+                    this.updateStatusBarProgress('ready');
+                    return true;
                 }
+
+                const result = await this.reviewService.reviewFiles(files, {
+                    token,
+                    baseRef: 'HEAD',
+                    partial: true,
+                    onFileStarted: (filePath, index, total) => progress.report({
+                        message: `${index + 1}/${total} ${filePath}`,
+                        increment: 100 / total
+                    })
+                });
+
+                // Don't show completion message, but update status bar
+                this.updateStatusBarProgress(result.cancelled ? 'ready' : 'done');
+                return !result.cancelled;
             });
         } catch (error) {
             this.updateStatusBarProgress('error');
             vscode.window.showErrorMessage("An error occurred during the auto-review process.");
+            return false;
         }
     }
 
@@ -914,6 +3653,16 @@ class PearReviewController {
         );
     }
 
+    /** Determines if the given object is a file already prepared for review */
+    private isReviewFile(doc: unknown): doc is ReviewFile {
+        return (
+            doc !== null &&
+            typeof doc === 'object' &&
+            typeof (doc as ReviewFile).content === 'string' &&
+            !!(doc as ReviewFile).uri
+        );
+    }
+
     /** Determines if the given object is a source control state */
     private isSourceControlState(doc: unknown): doc is vscode.SourceControlResourceState {
         return (
@@ -924,41 +3673,56 @@ class PearReviewController {
     }
 
     /** Performs a review of the given documents */
-    private async performReview(documents: ReviewTarget, progress: vscode.Progress<{ message?: string; increment?: number }>): Promise<void> {
-        const files = await this.prepareFilesForReview(documents);
+    private async performReview(
+        documents: ReviewTarget,
+        progress: vscode.Progress<{ message?: string; increment?: number }>,
+        token: vscode.CancellationToken,
+        buildContext?: (change: FileChange) => string,
+        baseRef?: string,
+        partial: boolean = false
+    ): Promise<ReviewRunResult | undefined> {
+        const files = await this.prepareFilesForReview(documents, buildContext);
         if (files.length === 0) {
             vscode.window.showInformationMessage("🍐 I couldn't find any files to review!");
-            return;
+            return undefined;
         }
 
-        let messageIndex = 0;
-        const progressInterval = setInterval(() => {
-            progress.report({ 
-                message: PEAR_MESSAGES.progress[messageIndex % PEAR_MESSAGES.progress.length],
-                increment: 5
-            });
-            messageIndex++;
-        }, 2500);
+        const result = await this.reviewService.reviewFiles(files, {
+            token,
+            baseRef,
+            partial,
+            onFileStarted: (filePath, index, total) => progress.report({
+                message: `${index + 1}/${total} ${filePath}`,
+                increment: 80 / total
+            })
+        });
 
-        try {
-            progress.report({ message: "Analyzing code", increment: 20 });
-            await this.reviewService.reviewFiles(files);
-            progress.report({ message: "Finalizing review", increment: 20 });
-            
-            // Show diagnostics toggle but maintain visibility state
-            this.statusItems.diagnostic.show();
-        } finally {
-            clearInterval(progressInterval);
+        // Show diagnostics toggle but maintain visibility state
+        this.statusItems.diagnostic.show();
+
+        if (result.cancelled) {
+            vscode.window.showInformationMessage("🍐 Review cancelled. I kept the comments for the files I finished.");
+        } else if (result.skippedFiles.length > 0) {
+            vscode.window.showWarningMessage(
+                `🍐 I ran out of token budget and couldn't fully review ${result.skippedFiles.length} file${result.skippedFiles.length === 1 ? '' : 's'}: ${result.skippedFiles.join(', ')}`
+            );
         }
+        return result;
     }
 
     /** Prepares files for review from the given documents */
-    private async prepareFilesForReview(documents: ReviewTarget): Promise<{ uri: vscode.Uri, content: string }[]> {
-        const files: { uri: vscode.Uri, content: string }[] = [];
+    private async prepareFilesForReview(
+        documents: ReviewTarget,
+        buildContext?: (change: FileChange) => string
+    ): Promise<ReviewFile[]> {
+        const files: ReviewFile[] = [];
 
         for (const doc of documents) {
             try {
-                if (this.isTextDocument(doc)) {
+                if (this.isReviewFile(doc)) {
+                    // Files prepared by the caller, e.g. a selection, are reviewed as they are
+                    files.push(doc);
+                } else if (this.isTextDocument(doc)) {
                     files.push({
                         uri: doc.uri,
                         content: doc.getText()
@@ -970,10 +3734,18 @@ class PearReviewController {
                         content: textDoc.getText()
                     });
                 } else if ('uri' in doc) { // FileChange
+                    // Deleted files have nothing left to review
+                    if (doc.type === 'delete') {
+                        continue;
+                    }
                     const textDoc = await vscode.workspace.openTextDocument(doc.uri);
                     files.push({
                         uri: doc.uri,
-                        content: textDoc.getText()
+                        content: textDoc.getText(),
+                        // New files are reviewed in full
+                        changedRanges: doc.type === 'add' ? undefined : parseChangedLineRanges(doc.diff),
+                        diff: doc.diff,
+                        context: buildContext?.(doc)
                     });
                 }
             } catch (error) {
@@ -983,6 +3755,64 @@ class PearReviewController {
         return files;
     }
 
+    /** Adds a finished run to the review history, one entry per repository it touched */
+    private async recordRun(result: ReviewRunResult): Promise<void> {
+        if (!vscode.workspace.getConfiguration('pearReview').get<boolean>('recordHistory', true) || result.reviewedFiles.length === 0) {
+            return;
+        }
+
+        try {
+            const hasGit = await this.gitService.initialize();
+            const repositories = hasGit ? await this.gitService.getRepositoryStates() : [];
+            const timestamp = new Date().toISOString();
+            const entries = new Map<string, ReviewHistoryEntry>();
+
+            for (const uri of result.reviewedFiles) {
+                const fileUri = uri.with({ scheme: 'file', query: '' });
+                const name = (hasGit ? this.gitService.getRepositoryName(fileUri) : undefined)
+                    ?? vscode.workspace.getWorkspaceFolder(fileUri)?.name
+                    ?? 'Workspace';
+                const state = repositories.find(repository => repository.name === name);
+                const entry = entries.get(name) ?? {
+                    timestamp,
+                    repository: name,
+                    branch: state?.branch,
+                    head: state?.head,
+                    baseRef: result.run.baseRef,
+                    models: result.run.models,
+                    files: []
+                };
+                entries.set(name, entry);
+
+                const file: ReviewHistoryFile = {
+                    path: vscode.workspace.asRelativePath(fileUri),
+                    severities: { error: 0, warning: 0, info: 0 },
+                    categories: {}
+                };
+                for (const review of result.reviews.filter(candidate => candidate.uri.toString() === uri.toString())) {
+                    const category = review.category ?? UNCATEGORIZED;
+                    file.severities[review.severity]++;
+                    file.categories[category] = (file.categories[category] ?? 0) + 1;
+                }
+                entry.files.push(file);
+            }
+
+            await this.historyService.add([...entries.values()]);
+            await this.refreshDashboard();
+        } catch (error) {
+            this.log.warn(`Couldn't record the review in the history: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /** Redraws the dashboard, if it is open, from the current history */
+    private async refreshDashboard(): Promise<void> {
+        if (!this.dashboardPanel) {
+            return;
+        }
+        const entries = await this.historyService.getEntries();
+        this.dashboardPanel.webview.html = new ReviewHistoryDashboard().render(entries, this.dashboardPanel.webview.cspSource);
+    }
+
     /** Updates the visibility of diagnostics */
     private updateDiagnosticVisibility(): void {
         if (this.isDiagnosticsVisible) {
@@ -990,28 +3820,61 @@ class PearReviewController {
         } else {
             this.reviewService.hideAllDiagnostics();
         }
+        this.threadProvider.setVisible(this.isDiagnosticsVisible);
     }
 
-    /** Updates the diagnostic status bar item */
+    /** Updates the badge and filter message of the Review Comments view */
+    private updateFindingsView(): void {
+        const total = this.findingsTreeProvider.getTotalCount();
+        const hidden = total - this.findingsTreeProvider.getVisibleReviews().length;
+
+        this.findingsTreeView.badge = total > 0
+            ? { value: total, tooltip: `${total} review comment${total === 1 ? '' : 's'}` }
+            : undefined;
+        this.findingsTreeView.message = hidden > 0
+            ? `${hidden} comment${hidden === 1 ? ' is' : 's are'} hidden by filters`
+            : undefined;
+    }
+
+    /** Shows the active persona in the status bar */
+    private updatePersonaStatusBar(): void {
+        const persona = this.personaService.getActivePersona();
+        this.statusItems.persona.text = `$(person) ${persona.label}`;
+        this.statusItems.persona.tooltip = `Reviewing as ${persona.label}: ${persona.description}. Click to switch persona`;
+    }
+
+    /** Updates the review comments status bar item, with the number of comments per category */
     private updateDiagnosticStatusBar(): void {
-        this.statusItems.diagnostic.text = this.isDiagnosticsVisible
-            ? "$(eye) Review Comments"
-            : "$(eye-closed) Review Comments";
-        this.statusItems.diagnostic.tooltip = this.isDiagnosticsVisible
+        const reviews = this.reviewService.getAllReviews();
+        const counts = new Map<string, number>();
+        for (const review of reviews) {
+            const label = review.category ? CATEGORY_LABELS[review.category] ?? review.category : 'Uncategorized';
+            counts.set(label, (counts.get(label) ?? 0) + 1);
+        }
+        const busiest = [...counts].sort((a, b) => b[1] - a[1]);
+
+        const icon = this.isDiagnosticsVisible ? "$(eye)" : "$(eye-closed)";
+        this.statusItems.diagnostic.text = busiest.length > 0
+            ? `${icon} ${busiest.slice(0, 3).map(([label, count]) => `${label} ${count}`).join(' · ')}${busiest.length > 3 ? ' · …' : ''}`
+            : `${icon} Review Comments`;
+
+        const tooltip = new vscode.MarkdownString(this.isDiagnosticsVisible
             ? "Click to hide Pear's review comments"
-            : "Click to show Pear's review comments";
+            : "Click to show Pear's review comments");
+        if (busiest.length > 0) {
+            tooltip.appendMarkdown(`\n\n${busiest.map(([label, count]) => `- ${label}: ${count}`).join('\n')}`);
+        }
+        this.statusItems.diagnostic.tooltip = tooltip;
     }
 
     /** Cleans up resources */
     dispose(): void {
         this.statusItems.review.dispose();
+        this.statusItems.persona.dispose();
         this.statusItems.diagnostic.dispose();
-        if (this.reviewDebounceTimer) {
-            clearTimeout(this.reviewDebounceTimer);
-        }
-        if (this.autoSaveDisposable) {
-            this.autoSaveDisposable.dispose();
-        }
+        this.autoReviewQueue.dispose();
+        this.autoReviewDisposable?.dispose();
+        this.dashboardPanel?.dispose();
     }
 }
 
@@ -1026,14 +3889,103 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     const controller = new PearReviewController(context);
     
     context.subscriptions.push(
+        // Stops the automatic review queue and its watchers along with the extension
+        controller,
         vscode.commands.registerCommand('pear-review.reviewChanges', () => 
             controller.reviewChanges()
         ),
+        vscode.commands.registerCommand('pear-review.reviewBranch', () =>
+            controller.reviewBranch()
+        ),
+        vscode.commands.registerCommand('pear-review.reviewBranchAgainst', () =>
+            controller.reviewBranch(true)
+        ),
+        vscode.commands.registerCommand('pear-review.reviewCommits', () =>
+            controller.reviewCommits()
+        ),
+        vscode.commands.registerCommand('pear-review.reviewStaged', () =>
+            controller.reviewStaged()
+        ),
+        vscode.commands.registerCommand('pear-review.commitWithReview', (sourceControl?: vscode.SourceControl) =>
+            controller.commitWithReview(sourceControl)
+        ),
+        vscode.commands.registerCommand('pear-review.reviewResources', (...resourceStates: vscode.SourceControlResourceState[]) =>
+            controller.reviewResources(...resourceStates)
+        ),
+        vscode.commands.registerCommand('pear-review.reviewUris', (uri?: vscode.Uri, selectedUris?: vscode.Uri[]) =>
+            controller.reviewUris(uri, selectedUris)
+        ),
+        vscode.commands.registerCommand('pear-review.reviewCurrentFile', (uri?: vscode.Uri) =>
+            controller.reviewCurrentFile(uri)
+        ),
+        vscode.commands.registerCommand('pear-review.reviewSelection', () =>
+            controller.reviewSelection()
+        ),
+        vscode.commands.registerCommand('pear-review.showDashboard', () =>
+            controller.showDashboard()
+        ),
+        vscode.commands.registerCommand('pear-review.exportHistory', () =>
+            controller.exportHistory()
+        ),
+        vscode.commands.registerCommand('pear-review.clearHistory', () =>
+            controller.clearHistory()
+        ),
         vscode.commands.registerCommand('pear-review.toggleAutoReview', () =>
             controller.toggleAutoReview()
         ),
         vscode.commands.registerCommand('pear-review.toggleReviewComments', () =>
             controller.toggleReviewComments()
+        ),
+        vscode.commands.registerCommand('pear-review.openFinding', (review: ReviewComment) =>
+            controller.openFinding(review)
+        ),
+        vscode.commands.registerCommand('pear-review.nextFinding', () =>
+            controller.navigateFinding(1)
+        ),
+        vscode.commands.registerCommand('pear-review.previousFinding', () =>
+            controller.navigateFinding(-1)
+        ),
+        vscode.commands.registerCommand('pear-review.groupFindings', () =>
+            controller.groupFindings()
+        ),
+        vscode.commands.registerCommand('pear-review.filterFindings', () =>
+            controller.filterFindings()
+        ),
+        vscode.commands.registerCommand('pear-review.resolveFinding', (target?: ReviewComment | FindingTreeNode) =>
+            controller.decideOnFinding(target, 'resolved')
+        ),
+        vscode.commands.registerCommand('pear-review.dismissFinding', (target?: ReviewComment | FindingTreeNode) =>
+            controller.decideOnFinding(target, 'dismissed')
+        ),
+        vscode.commands.registerCommand('pear-review.wontFixFinding', (target?: ReviewComment | FindingTreeNode) =>
+            controller.decideOnFinding(target, 'wontFix')
+        ),
+        vscode.commands.registerCommand('pear-review.replyToThread', (reply: vscode.CommentReply) =>
+            controller.replyToThread(reply)
+        ),
+        vscode.commands.registerCommand('pear-review.showSuppressedFindings', () =>
+            controller.showSuppressedFindings()
+        ),
+        vscode.commands.registerCommand('pear-review.clearCache', () =>
+            controller.clearCache()
+        ),
+        vscode.commands.registerCommand('pear-review.setApiKey', () =>
+            controller.setApiKey()
+        ),
+        vscode.commands.registerCommand('pear-review.selectPersona', () =>
+            controller.selectPersona()
+        ),
+        vscode.commands.registerCommand('pear-review.showLog', () =>
+            controller.showLog()
+        ),
+        vscode.commands.registerCommand('pear-review.exportReview', () =>
+            controller.exportReview()
+        ),
+        vscode.commands.registerCommand('pear-review.applyAllFixes', (uri?: vscode.Uri) =>
+            controller.applyAllFixes(uri)
+        ),
+        vscode.commands.registerCommand('pear-review.previewFix', (uri: vscode.Uri, range: vscode.Range, suggestion: ReviewSuggestion) =>
+            controller.previewFix(uri, range, suggestion)
         )
     );
 }
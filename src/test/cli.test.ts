@@ -0,0 +1,144 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { run } from '../cli';
+import { CancellationSource } from '../core/scheduler';
+
+/** Answers every chat completion with the given review items, streamed as server-sent events */
+function startMockModelServer(items: object[]): Promise<{ server: http.Server; endpoint: string; prompts: string[] }> {
+	const prompts: string[] = [];
+	const server = http.createServer((request, response) => {
+		let body = '';
+		request.on('data', chunk => body += chunk);
+		request.on('end', () => {
+			prompts.push(JSON.parse(body).messages[0].content);
+			response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+			for (const item of items) {
+				response.write(`data: ${JSON.stringify({ choices: [{ delta: { content: `${JSON.stringify(item)}\n` } }] })}\n\n`);
+			}
+			response.end('data: [DONE]\n\n');
+		});
+	});
+
+	return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+		const { port } = server.address() as AddressInfo;
+		resolve({ server, endpoint: `http://127.0.0.1:${port}/v1`, prompts });
+	}));
+}
+
+suite('CLI Test Suite', () => {
+	let repository: string;
+
+	setup(async () => {
+		repository = await fs.mkdtemp(path.join(os.tmpdir(), 'pear-review-cli-'));
+		const git = (...args: string[]) => execFileSync('git', args, { cwd: repository });
+		git('init', '--quiet');
+		git('config', 'user.email', 'pear@example.com');
+		git('config', 'user.name', 'Pear');
+		await fs.writeFile(path.join(repository, 'app.js'), 'const a = 1;\n');
+		git('add', '.');
+		git('commit', '--quiet', '-m', 'Initial commit');
+		await fs.writeFile(path.join(repository, 'app.js'), 'const a = 1;\neval(input);\n');
+	});
+
+	teardown(async () => {
+		await fs.rm(repository, { recursive: true, force: true });
+	});
+
+	test('Reports comments and fails on errors', async () => {
+		const { server, endpoint, prompts } = await startMockModelServer([
+			{ line: 2, code: 'eval(input)', message: 'Avoid eval on user input.', severity: 'error', category: 'Security', suggestions: [] }
+		]);
+		let stdout = '';
+
+		try {
+			const exitCode = await run(
+				['--cwd', repository, '--endpoint', endpoint, '--model', 'mock', '--format', 'json'],
+				{ stdout: text => stdout += text, stderr: () => {} }
+			);
+
+			assert.strictEqual(exitCode, 1);
+			assert.strictEqual(prompts.length, 1);
+			assert.ok(prompts[0].includes('--- app.js ---'));
+
+			const { comments } = JSON.parse(stdout);
+			assert.strictEqual(comments.length, 1);
+			assert.strictEqual(comments[0].filePath, 'app.js');
+			assert.strictEqual(comments[0].line, 2);
+			assert.strictEqual(comments[0].column, 1);
+			assert.strictEqual(comments[0].category, 'security');
+		} finally {
+			server.close();
+		}
+	});
+
+	test('Passes when no comment reaches the threshold', async () => {
+		const { server, endpoint } = await startMockModelServer([
+			{ line: 1, code: 'const a = 1;', message: 'Consider a clearer name.', severity: 'info' }
+		]);
+
+		try {
+			const exitCode = await run(
+				['--cwd', repository, '--endpoint', endpoint, '--model', 'mock', '--fail-on', 'warning'],
+				{ stdout: () => {}, stderr: () => {} }
+			);
+			assert.strictEqual(exitCode, 0);
+		} finally {
+			server.close();
+		}
+	});
+
+	test('Reviews the staged version of files', async () => {
+		execFileSync('git', ['add', 'app.js'], { cwd: repository });
+		await fs.writeFile(path.join(repository, 'app.js'), 'const a = 1;\neval(input);\nconsole.log(a);\n');
+		const { server, endpoint, prompts } = await startMockModelServer([]);
+
+		try {
+			const exitCode = await run(
+				['--cwd', repository, '--endpoint', endpoint, '--model', 'mock', '--staged'],
+				{ stdout: () => {}, stderr: () => {} }
+			);
+			assert.strictEqual(exitCode, 0);
+			assert.strictEqual(prompts.length, 1);
+			assert.ok(prompts[0].includes('2: eval(input);'));
+			assert.ok(!prompts[0].includes('console.log(a);'));
+		} finally {
+			server.close();
+		}
+	});
+
+	test('Uses the endpoint of the project config only when trusted', async () => {
+		const { server, endpoint, prompts } = await startMockModelServer([]);
+		await fs.writeFile(path.join(repository, '.pearreview.json'), JSON.stringify({ model: { endpoint, name: 'mock' } }));
+		execFileSync('git', ['add', '.pearreview.json'], { cwd: repository });
+		execFileSync('git', ['commit', '--quiet', '-m', 'Add review config'], { cwd: repository });
+		// Without the flag the review would go to the default server, so it stops at the warning
+		const cancellation = new CancellationSource();
+		let stderr = '';
+
+		try {
+			await run(
+				['--cwd', repository],
+				{ stdout: () => {}, stderr: text => { stderr += text; cancellation.cancel(); } },
+				cancellation
+			);
+			assert.strictEqual(prompts.length, 0);
+			assert.ok(stderr.includes('--trust-project-endpoint'));
+
+			const exitCode = await run(['--cwd', repository, '--trust-project-endpoint'], { stdout: () => {}, stderr: () => {} });
+			assert.strictEqual(exitCode, 0);
+			assert.strictEqual(prompts.length, 1);
+		} finally {
+			server.close();
+		}
+	});
+
+	test('Rejects unknown options', async () => {
+		const exitCode = await run(['--format', 'pdf'], { stdout: () => {}, stderr: () => {} });
+		assert.strictEqual(exitCode, 2);
+	});
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { isReviewablePath, parseProjectConfig, resolvePolicy } from '../core/config';
+
+suite('Project Config', () => {
+	test('Reads a YAML config', () => {
+		const { config, problems } = parseProjectConfig([
+			'include: ["src/**"]',
+			'minSeverity: warning',
+			'model:',
+			'  provider: openai-compatible',
+			'  name: llama3.1',
+			'overrides:',
+			'  - paths: "src/legacy/**"',
+			'    minSeverity: error'
+		].join('\n'), '.pearreview.yml');
+
+		assert.deepStrictEqual(problems, []);
+		assert.deepStrictEqual(config.include, ['src/**']);
+		assert.strictEqual(config.minSeverity, 'warning');
+		assert.strictEqual(config.model?.provider, 'openai-compatible');
+		assert.strictEqual(config.model?.name, 'llama3.1');
+		assert.deepStrictEqual(config.overrides, [{ paths: ['src/legacy/**'], categories: undefined, minSeverity: 'error', guidelines: undefined }]);
+	});
+
+	test('Keeps the well-formed settings and reports the others', () => {
+		const { config, problems } = parseProjectConfig(JSON.stringify({
+			categories: ['security', 'performance'],
+			minSeverity: 'fatal',
+			maxFileSize: -1,
+			model: { provider: 'other' },
+			overrides: [{ minSeverity: 'error' }]
+		}), '.pearreview.json');
+
+		assert.deepStrictEqual(config.categories, ['security']);
+		assert.strictEqual(config.minSeverity, undefined);
+		assert.strictEqual(config.maxFileSize, undefined);
+		assert.strictEqual(config.model?.provider, undefined);
+		assert.deepStrictEqual(config.overrides, []);
+		assert.deepStrictEqual(problems, [
+			'categories has unknown categories performance',
+			'minSeverity should be one of error, warning, info',
+			'maxFileSize should be a positive number of bytes',
+			'model.provider should be "vscode" or "openai-compatible"',
+			'overrides[0] needs "paths"'
+		]);
+	});
+
+	test('Rejects files that are not an object', () => {
+		assert.throws(() => parseProjectConfig('[]', '.pearreview.json'));
+		assert.throws(() => parseProjectConfig('{', '.pearreview.json'));
+	});
+
+	test('Applies matching overrides in the order they are listed', () => {
+		const config = {
+			categories: ['security', 'style'],
+			guidelines: 'Prefer early returns.',
+			overrides: [
+				{ paths: ['src/**'], minSeverity: 'warning' as const, guidelines: 'No default exports.' },
+				{ paths: ['src/legacy/**'], categories: ['security'], minSeverity: 'error' as const },
+				{ paths: ['test/**'], categories: ['testing'] }
+			]
+		};
+
+		assert.deepStrictEqual(resolvePolicy(config, 'src/legacy/old.ts'), {
+			categories: ['security'],
+			minSeverity: 'error',
+			guidelines: ['Prefer early returns.', 'No default exports.']
+		});
+		assert.deepStrictEqual(resolvePolicy(config, 'README.md'), {
+			categories: ['security', 'style'],
+			minSeverity: 'info',
+			guidelines: ['Prefer early returns.']
+		});
+	});
+
+	test('Checks paths against the globs and the size limit', () => {
+		const config = { include: ['src/**'], exclude: ['**/*.min.js'], maxFileSize: 10 };
+
+		assert.ok(isReviewablePath(config, 'src/app.ts', 'short'));
+		assert.ok(!isReviewablePath(config, 'src/app.ts', 'far too long'));
+		assert.ok(!isReviewablePath(config, 'src/vendor.min.js', 'short'));
+		assert.ok(!isReviewablePath(config, 'docs/index.md', 'short'));
+	});
+});
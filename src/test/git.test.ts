@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import simpleGit from 'simple-git';
+import { countChangedLines, findNestedRepositories, GitChangeReader, parseChangedLineRanges } from '../core/git';
+
+suite('Git Test Suite', () => {
+	const search = { maxResults: 10, maxDepth: 10, maxDirectories: 100 };
+	let workspace: string;
+
+	setup(async () => {
+		workspace = await fs.mkdtemp(path.join(os.tmpdir(), 'pear-review-git-'));
+	});
+
+	teardown(async () => {
+		await fs.rm(workspace, { recursive: true, force: true });
+	});
+
+	test('Finds nested repositories and submodules below the workspace', async () => {
+		execFileSync('git', ['init', '--quiet'], { cwd: workspace });
+		await fs.mkdir(path.join(workspace, 'packages', 'lib'), { recursive: true });
+		execFileSync('git', ['init', '--quiet'], { cwd: path.join(workspace, 'packages', 'lib') });
+		await fs.mkdir(path.join(workspace, 'vendor', 'sub'), { recursive: true });
+		await fs.writeFile(path.join(workspace, 'vendor', 'sub', '.git'), 'gitdir: ../../.git/modules/sub\n');
+		await fs.mkdir(path.join(workspace, 'node_modules', 'pkg'), { recursive: true });
+		execFileSync('git', ['init', '--quiet'], { cwd: path.join(workspace, 'node_modules', 'pkg') });
+
+		const repositories = await findNestedRepositories(simpleGit(workspace), workspace, search);
+
+		assert.deepStrictEqual(repositories.map(repository => path.relative(workspace, repository)).sort(), [
+			path.join('packages', 'lib'),
+			path.join('vendor', 'sub')
+		]);
+	});
+
+	test('Stops at the result limit', async () => {
+		for (const name of ['a', 'b', 'c']) {
+			await fs.mkdir(path.join(workspace, name, '.git'), { recursive: true });
+		}
+
+		assert.strictEqual((await findNestedRepositories(simpleGit(workspace), workspace, { ...search, maxResults: 2 })).length, 2);
+	});
+
+	test('Skips directories that Git ignores or that are too deep', async () => {
+		execFileSync('git', ['init', '--quiet'], { cwd: workspace });
+		await fs.writeFile(path.join(workspace, '.gitignore'), 'build/\n');
+		for (const directory of [['build', 'cache'], ['a', 'b'], ['a', 'b', 'c', 'd']]) {
+			await fs.mkdir(path.join(workspace, ...directory, '.git'), { recursive: true });
+		}
+
+		const repositories = await findNestedRepositories(simpleGit(workspace), workspace, { ...search, maxDepth: 2 });
+
+		assert.deepStrictEqual(repositories, [path.join(workspace, 'a', 'b')]);
+	});
+
+	test('Lists the submodules Git knows about without walking to them', async () => {
+		const library = await fs.mkdtemp(path.join(os.tmpdir(), 'pear-review-library-'));
+		const identity = ['-c', 'user.name=Pear', '-c', 'user.email=pear@example.com'];
+		try {
+			execFileSync('git', ['init', '--quiet'], { cwd: library });
+			execFileSync('git', [...identity, 'commit', '--quiet', '--allow-empty', '-m', 'Initial commit'], { cwd: library });
+			execFileSync('git', ['init', '--quiet'], { cwd: workspace });
+			execFileSync('git', ['-c', 'protocol.file.allow=always', 'submodule', 'add', '--quiet', library, 'vendor/library'], { cwd: workspace });
+
+			const repositories = await findNestedRepositories(simpleGit(workspace), workspace, { ...search, maxDirectories: 1 });
+
+			assert.deepStrictEqual(repositories, [path.join(workspace, 'vendor', 'library')]);
+		} finally {
+			await fs.rm(library, { recursive: true, force: true });
+		}
+	});
+
+	test('Lists the files of a folder that Git does not ignore', async () => {
+		execFileSync('git', ['init', '--quiet'], { cwd: workspace });
+		await fs.mkdir(path.join(workspace, 'src', 'build'), { recursive: true });
+		await fs.writeFile(path.join(workspace, '.gitignore'), 'build/\n');
+		await fs.writeFile(path.join(workspace, 'src', 'app.ts'), 'export {};\n');
+		await fs.writeFile(path.join(workspace, 'src', 'build', 'app.js'), 'export {};\n');
+		await fs.writeFile(path.join(workspace, 'README.md'), '# App\n');
+
+		const files = await new GitChangeReader(simpleGit(workspace), workspace).listFiles('src');
+
+		assert.deepStrictEqual(files, ['src/app.ts']);
+	});
+
+	test('Extracts the changed lines of the new file from a diff', () => {
+		const diff = [
+			'diff --git a/app.ts b/app.ts',
+			'--- a/app.ts',
+			'+++ b/app.ts',
+			'@@ -1,4 +1,5 @@',
+			' const a = 1;',
+			'-const b = 2;',
+			'+const b = 3;',
+			'+const c = 4;',
+			' const d = 5;',
+			' const e = 6;',
+			'@@ -10,2 +11,0 @@',
+			'-old();',
+			'-older();',
+			'\\ No newline at end of file'
+		].join('\n');
+
+		assert.deepStrictEqual(parseChangedLineRanges(diff), [{ start: 2, end: 3 }, { start: 11, end: 11 }]);
+		assert.strictEqual(countChangedLines(diff), 5);
+	});
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { summarizeHistory } from '../core/history';
+import { ReviewHistoryEntry } from '../core/types';
+
+function entry(timestamp: string, repository: string, files: [string, number, string?][]): ReviewHistoryEntry {
+	return {
+		timestamp,
+		repository,
+		models: ['mock'],
+		files: files.map(([path, warnings, category]) => ({
+			path,
+			severities: { error: 0, warning: warnings, info: 0 },
+			categories: category ? { [category]: warnings } : {}
+		}))
+	};
+}
+
+suite('Review History', () => {
+	test('Adds up runs per repository and day', () => {
+		const summary = summarizeHistory([
+			entry('2026-03-02T10:00:00.000Z', 'app', [['src/a.ts', 2, 'style']]),
+			entry('2026-03-01T09:00:00.000Z', 'app', [['src/a.ts', 4, 'style'], ['src/b.ts', 0]]),
+			entry('2026-03-01T12:00:00.000Z', 'lib', [['index.ts', 1, 'security']])
+		]);
+
+		assert.strictEqual(summary.runs, 3);
+		assert.strictEqual(summary.comments, 7);
+		assert.strictEqual(summary.since, '2026-03-01T09:00:00.000Z');
+		assert.deepStrictEqual(summary.repositories.get('app')?.map(day => [day.date, day.files, day.severities.warning]), [
+			['2026-03-01', 2, 4],
+			['2026-03-02', 1, 2]
+		]);
+		assert.deepStrictEqual(summary.categories, [['style', 6], ['security', 1]]);
+	});
+
+	test('Lists files with comments, most first, with their recent counts', () => {
+		const summary = summarizeHistory([
+			entry('2026-03-01T09:00:00.000Z', 'app', [['src/a.ts', 4], ['src/b.ts', 0]]),
+			entry('2026-03-02T10:00:00.000Z', 'app', [['src/a.ts', 2], ['src/c.ts', 5]])
+		]);
+
+		assert.deepStrictEqual(summary.files.map(file => [file.path, file.comments, file.reviews, file.recent]), [
+			['src/a.ts', 6, 2, [4, 2]],
+			['src/c.ts', 5, 1, [5]]
+		]);
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { findIdentifiers } from '../core/identifiers';
+
+function names(lines: string[], languageId: string): string[] {
+	return findIdentifiers(lines, languageId).map(identifier => identifier.name);
+}
+
+suite('Identifiers', () => {
+	test('Leaves out keywords, numbers and the words in comments and strings', () => {
+		assert.deepStrictEqual(names([
+			'const total = sum(items, 0x1f); // add up items',
+			'return format(`Total: ${total}`, "it\'s \\"done\\"");'
+		], 'typescript'), ['total', 'sum', 'items', 'format']);
+	});
+
+	test('Skips comments and strings that span lines', () => {
+		assert.deepStrictEqual(names([
+			'/* The cart',
+			'   holds items */ cart.add(item);',
+			'const help = `Usage:',
+			'  cart add <item>`;',
+			'render(help);'
+		], 'javascript'), ['cart', 'add', 'item', 'help', 'render', 'help']);
+	});
+
+	test('Uses the comment and string syntax of the language', () => {
+		assert.deepStrictEqual(names([
+			'def total(items):  # add up items',
+			'    """Sum the',
+			'    prices."""',
+			'    return sum(item.price for item in items) or None'
+		], 'python'), ['total', 'items', 'sum', 'item', 'price', 'item', 'items']);
+	});
+
+	test('Reports 0-based positions', () => {
+		assert.deepStrictEqual(findIdentifiers(['', '  let count = next();'], 'typescript'), [
+			{ name: 'count', line: 1, character: 6 },
+			{ name: 'next', line: 1, character: 14 }
+		]);
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { CodeLocator } from '../core/locator';
+
+suite('Code Locator', () => {
+	const locator = new CodeLocator();
+	const lines = [
+		'function total(items) {',
+		'    let sum = 0;',
+		'    for (const item of items) {',
+		'        sum += item.price;',
+		'    }',
+		'',
+		'    return sum;',
+		'}'
+	];
+
+	test('Finds the code on the reported line', () => {
+		assert.deepStrictEqual(locator.locate(lines, 2, 'let sum = 0;'), {
+			startLine: 1, startCharacter: 4, endLine: 1, endCharacter: 16, confidence: 'exact'
+		});
+	});
+
+	test('Finds the code on a nearby line when the line number is off', () => {
+		assert.deepStrictEqual(locator.locate(lines, 5, 'sum += item.price;'), {
+			startLine: 3, startCharacter: 8, endLine: 3, endCharacter: 26, confidence: 'nearby'
+		});
+	});
+
+	test('Ignores whitespace differences', () => {
+		assert.deepStrictEqual(locator.locate(lines, 4, 'sum+=item.price'), {
+			startLine: 3, startCharacter: 8, endLine: 3, endCharacter: 25, confidence: 'exact'
+		});
+	});
+
+	test('Matches multi-line snippets across blank lines', () => {
+		assert.deepStrictEqual(locator.locate(lines, 5, '}\n    return sum;'), {
+			startLine: 4, startCharacter: 4, endLine: 6, endCharacter: 15, confidence: 'exact'
+		});
+	});
+
+	test('Falls back to the reported line when the code is not found', () => {
+		assert.deepStrictEqual(locator.locate(lines, 7, 'console.log(sum);'), {
+			startLine: 6, startCharacter: 4, endLine: 6, endCharacter: 15, confidence: 'line'
+		});
+	});
+
+	test('Gives up on lines past the end of the file', () => {
+		assert.strictEqual(locator.locate(lines, 9, 'console.log(sum);'), null);
+		assert.strictEqual(locator.locate(lines, 0, 'let sum = 0;'), null);
+	});
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { parseReviewResponse, validateReviewItem } from '../core/parser';
+
+async function* stream(...chunks: string[]): AsyncIterable<string> {
+	yield* chunks;
+}
+
+const log = { debug: () => {}, info: () => {}, warn: () => {} };
+
+suite('Review Parser', () => {
+	test('Accepts items that match the review schema', () => {
+		assert.deepStrictEqual(validateReviewItem({
+			line: 3,
+			code: 'eval(input)',
+			message: 'Avoid eval on user input.',
+			severity: 'error',
+			category: 'security',
+			suggestions: [{ description: 'Parse it', code: 'JSON.parse(input)' }, { description: 'Missing code' }],
+			praise: ''
+		}), {
+			line: 3,
+			code: 'eval(input)',
+			message: 'Avoid eval on user input.',
+			severity: 'error',
+			category: 'security',
+			suggestions: [{ description: 'Parse it', code: 'JSON.parse(input)' }],
+			praise: undefined
+		});
+	});
+
+	test('Explains why an item is rejected', () => {
+		const item = { line: 1, code: 'a', message: 'b', severity: 'warning' };
+		assert.strictEqual(validateReviewItem([item]), 'not a JSON object');
+		assert.strictEqual(validateReviewItem({ ...item, line: 0 }), '"line" must be a positive whole number');
+		assert.strictEqual(validateReviewItem({ ...item, code: ' ' }), '"code" must be a non-empty string');
+		assert.strictEqual(validateReviewItem({ ...item, severity: 'fatal' }), '"severity" must be one of error, warning, info');
+		assert.strictEqual(validateReviewItem({ ...item, suggestions: 'none' }), '"suggestions" must be an array');
+		assert.strictEqual(validateReviewItem({ ...item, category: 7 }), '"category" must be a string');
+	});
+
+	test('Normalizes the category names models write', () => {
+		const item = { line: 1, code: 'a', message: 'b', severity: 'info' };
+		const categoryOf = (category: string) => (validateReviewItem({ ...item, category }) as { category?: string }).category;
+
+		assert.strictEqual(categoryOf('Error Handling'), 'error-handling');
+		assert.strictEqual(categoryOf(' version_control '), 'version-control');
+		assert.strictEqual(categoryOf('Performance'), undefined);
+	});
+
+	test('Splits streamed output into items and rejects the malformed ones', async () => {
+		const { items, rejected } = await parseReviewResponse(stream(
+			'```json\n[{"line": 1, "code": "a", "message": "Use {braces}", ',
+			'"severity": "info"},\n{"line": "two"}, {"line": 3',
+			'\n```'
+		), log);
+
+		assert.deepStrictEqual(items.map(item => item.message), ['Use {braces}']);
+		assert.deepStrictEqual(rejected.map(item => item.reason), ['"line" must be a positive whole number', 'incomplete JSON object']);
+	});
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { estimateTokens, formatRelatedCode } from '../core/prompts';
+import { RelatedCode } from '../core/types';
+
+suite('Related Code', () => {
+	const related: RelatedCode[] = [
+		{ kind: 'definition', symbol: 'parse', filePath: 'src/parse.ts', line: 4, code: 'export function parse(text: string) {}' },
+		{ kind: 'caller', symbol: 'total', filePath: 'src/cart.ts', line: 12, code: 'const sum = total(items);' },
+		{ kind: 'definition', symbol: 'Item', filePath: 'src/item.ts', line: 1, code: `export interface Item {\n${'    name: string;\n'.repeat(40)}}` }
+	];
+
+	test('Says what it includes and labels every snippet', () => {
+		const { text, included } = formatRelatedCode(related, 10000);
+
+		assert.strictEqual(included.length, 3);
+		assert.ok(text.startsWith('Related code from other files, for reference only: the definitions of `parse`, `Item` and code in other files that calls `total`.\n'));
+		assert.ok(text.includes('--- Definition of `parse`, src/parse.ts:4 ---\nexport function parse(text: string) {}'));
+		assert.ok(text.includes('--- Call site of `total`, src/cart.ts:12 ---'));
+	});
+
+	test('Leaves out snippets that would exceed the token budget', () => {
+		const budget = estimateTokens('--- Definition of `parse`, src/parse.ts:4 ---\nexport function parse(text: string) {}') +
+			estimateTokens('--- Call site of `total`, src/cart.ts:12 ---\nconst sum = total(items);');
+		const { text, included } = formatRelatedCode(related, budget);
+
+		assert.deepStrictEqual(included.map(item => item.symbol), ['parse', 'total']);
+		assert.ok(text.includes('One more snippet was left out to save space.'));
+		assert.ok(!text.includes('src/item.ts'));
+	});
+
+	test('Returns nothing when no snippet fits', () => {
+		assert.deepStrictEqual(formatRelatedCode(related, 5), { text: '', included: [] });
+	});
+});
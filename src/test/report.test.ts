@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import { fenceCode, ReviewReportExporter } from '../core/report';
+import { ReportComment, ReportMetadata } from '../core/types';
+
+const comments: ReportComment[] = [
+	{
+		filePath: 'src/app.ts',
+		relativePath: 'src/app.ts',
+		line: 2,
+		column: 1,
+		endLine: 2,
+		endColumn: 12,
+		severity: 'error',
+		category: 'security',
+		message: 'Avoid eval on user input.',
+		code: 'eval(input)',
+		suggestions: [{ description: 'Parse the input', code: 'JSON.parse(input)' }],
+		outdated: false
+	},
+	{
+		filePath: 'src/app.ts',
+		relativePath: 'src/app.ts',
+		line: 5,
+		column: 5,
+		endLine: 5,
+		endColumn: 9,
+		severity: 'info',
+		message: 'Name <a> says little | rename it.',
+		code: 'a',
+		suggestions: [],
+		outdated: true
+	}
+];
+
+const metadata: ReportMetadata = {
+	toolVersion: '1.2.3',
+	generatedAt: '2026-03-02T12:00:00.000Z',
+	runs: [
+		{ baseRef: 'HEAD', models: ['gpt-4o'], startedAt: '2026-03-02T10:00:00.000Z' },
+		{ baseRef: 'origin/main', models: ['gpt-4o', 'llama3.1'], startedAt: '2026-03-02T11:00:00.000Z' }
+	],
+	repositories: [{ name: 'app', head: 'abc123', branch: 'main', remoteUrl: 'https://example.com/app.git' }]
+};
+
+suite('Review Reports', () => {
+	const exporter = new ReviewReportExporter();
+
+	test('Renders Markdown with metadata, comments and suggestions', () => {
+		const markdown = exporter.render('markdown', comments, metadata);
+
+		assert.ok(markdown.includes('| Reviewed | 2026-03-02T10:00:00.000Z, 2026-03-02T11:00:00.000Z |'));
+		assert.ok(markdown.includes('| Model | gpt-4o, llama3.1 |'));
+		assert.ok(markdown.includes('| Compared against | HEAD, origin/main |'));
+		assert.ok(markdown.includes('| HEAD | abc123 (main) |'));
+		assert.ok(markdown.includes('**2 comments: 1 errors, 0 warnings, 1 tips**'));
+		assert.ok(markdown.includes('### Error · Security · line 2'));
+		assert.ok(markdown.includes('### Tip · line 5 (outdated)'));
+		assert.ok(markdown.includes('**Suggestion:** Parse the input\n\n```ts\nJSON.parse(input)\n```'));
+	});
+
+	test('Escapes comments in HTML', () => {
+		const html = exporter.render('html', comments, metadata);
+
+		assert.ok(html.includes('<p>Name &lt;a&gt; says little | rename it.</p>'));
+		assert.ok(!html.includes('<a>'));
+	});
+
+	test('Exports JSON without source root paths', () => {
+		const report = JSON.parse(exporter.render('json', comments, metadata));
+
+		assert.deepStrictEqual(report.metadata, metadata);
+		assert.strictEqual(report.comments.length, 2);
+		assert.strictEqual(report.comments[0].relativePath, undefined);
+	});
+
+	test('Exports SARIF with a rule per category, fixes and every run', () => {
+		const sarif = JSON.parse(exporter.render('sarif', comments, metadata));
+		const [run] = sarif.runs;
+
+		assert.strictEqual(sarif.version, '2.1.0');
+		assert.deepStrictEqual(run.tool.driver.rules.find((rule: { id: string }) => rule.id === 'pear-review/error-handling'), {
+			id: 'pear-review/error-handling',
+			name: 'ErrorHandling',
+			shortDescription: { text: 'Error Handling comment from Pear Review' },
+			helpUri: 'https://github.com/scarowar/pear-review#category-error-handling'
+		});
+		assert.deepStrictEqual(run.invocations.map((invocation: { startTimeUtc: string }) => invocation.startTimeUtc), [
+			'2026-03-02T10:00:00.000Z',
+			'2026-03-02T11:00:00.000Z'
+		]);
+		assert.deepStrictEqual(run.properties, { models: ['gpt-4o', 'llama3.1'], baseRefs: ['HEAD', 'origin/main'] });
+		assert.deepStrictEqual(run.versionControlProvenance, [
+			{ repositoryUri: 'https://example.com/app.git', revisionId: 'abc123', branch: 'main' }
+		]);
+
+		const [error, tip] = run.results;
+		assert.strictEqual(error.ruleId, 'pear-review/security');
+		assert.strictEqual(error.level, 'error');
+		assert.deepStrictEqual(error.locations[0].physicalLocation, {
+			artifactLocation: { uri: 'src/app.ts', uriBaseId: '%SRCROOT%' },
+			region: { startLine: 2, startColumn: 1, endLine: 2, endColumn: 12 }
+		});
+		assert.strictEqual(error.fixes[0].artifactChanges[0].replacements[0].insertedContent.text, 'JSON.parse(input)');
+		assert.strictEqual(tip.ruleId, 'pear-review/comment');
+		assert.strictEqual(tip.level, 'note');
+		assert.deepStrictEqual(tip.properties, { outdated: true });
+	});
+
+	test('Marks comments restored from an earlier session', () => {
+		const markdown = exporter.render('markdown', comments, { ...metadata, runs: [] });
+
+		assert.ok(markdown.includes('| Reviewed | In an earlier session |'));
+		assert.ok(markdown.includes('| Model | Unknown |'));
+	});
+
+	test('Fences code longer than its backtick runs', () => {
+		assert.strictEqual(fenceCode('const a = 1;', 'ts'), '```ts\nconst a = 1;\n```');
+		assert.strictEqual(fenceCode('Run ````npm test```` first'), '`````\nRun ````npm test```` first\n`````');
+	});
+});
@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { applyCategorySettings, applyChangeScope, meetsSeverity } from '../core/review';
+import { Severity } from '../core/types';
+
+function comment(line: number, severity: Severity, category?: string) {
+	return { line, severity, category };
+}
+
+suite('Review Filters', () => {
+	test('Drops or demotes comments outside the changed lines', () => {
+		const reviews = [comment(2, 'error'), comment(5, 'warning'), comment(9, 'error')];
+		const changedRanges = [{ start: 1, end: 2 }, { start: 8, end: 9 }];
+
+		assert.deepStrictEqual(applyChangeScope(reviews, changedRanges, 'drop'), [comment(2, 'error'), comment(9, 'error')]);
+		assert.deepStrictEqual(applyChangeScope(reviews, changedRanges, 'demote'), [comment(2, 'error'), comment(5, 'info'), comment(9, 'error')]);
+	});
+
+	test('Drops turned off categories and applies category severities', () => {
+		const reviews = [comment(1, 'warning', 'style'), comment(2, 'info', 'security'), comment(3, 'warning', 'testing'), comment(4, 'error')];
+
+		assert.deepStrictEqual(
+			applyCategorySettings(reviews, { style: false }, { security: 'error', testing: 'loud' as Severity }),
+			[comment(2, 'error', 'security'), comment(3, 'warning', 'testing'), comment(4, 'error')]
+		);
+	});
+
+	test('Compares severities', () => {
+		assert.ok(meetsSeverity('error', 'warning'));
+		assert.ok(meetsSeverity('warning', 'warning'));
+		assert.ok(!meetsSeverity('info', 'warning'));
+	});
+});
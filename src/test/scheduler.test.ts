@@ -0,0 +1,173 @@
+import * as assert from 'assert';
+import { AutoReviewQueue, CancellationSource, Clock, ReviewScheduler } from '../core/scheduler';
+
+/** Runs timers only when the test moves the time forward */
+class FakeClock implements Clock {
+	private time = 0;
+	private timers = new Map<number, { at: number; callback: () => void }>();
+	private nextHandle = 1;
+
+	now(): number {
+		return this.time;
+	}
+
+	setTimeout(callback: () => void, ms: number): unknown {
+		const handle = this.nextHandle++;
+		this.timers.set(handle, { at: this.time + ms, callback });
+		return handle;
+	}
+
+	clearTimeout(handle: unknown): void {
+		this.timers.delete(handle as number);
+	}
+
+	/** Moves the time forward, running the timers that fall due and the reviews they start */
+	async advance(ms: number): Promise<void> {
+		const until = this.time + ms;
+		for (;;) {
+			const [handle, timer] = [...this.timers].sort(([, a], [, b]) => a.at - b.at)[0] ?? [];
+			if (!timer || timer.at > until) {
+				break;
+			}
+			this.timers.delete(handle);
+			this.time = Math.max(this.time, timer.at);
+			timer.callback();
+			await new Promise(resolve => setImmediate(resolve));
+		}
+		this.time = until;
+	}
+}
+
+suite('Auto Review Queue', () => {
+	let clock: FakeClock;
+
+	setup(() => {
+		clock = new FakeClock();
+	});
+
+	test('Reviews every file saved in a row after its own wait', async () => {
+		const reviewed: string[][] = [];
+		const queue = new AutoReviewQueue(async keys => { reviewed.push(keys); return true; }, () => ({ delayMs: 20, idleMs: 0 }), clock);
+
+		queue.add('a.ts', 'hash-a');
+		await clock.advance(10);
+		queue.add('b.ts', 'hash-b');
+		await clock.advance(9);
+		assert.deepStrictEqual(reviewed, []);
+
+		await clock.advance(1);
+		assert.deepStrictEqual(reviewed, [['a.ts']]);
+
+		await clock.advance(10);
+		assert.deepStrictEqual(reviewed, [['a.ts'], ['b.ts']]);
+		queue.dispose();
+	});
+
+	test('Reviews files that are due at the same time together', async () => {
+		const reviewed: string[][] = [];
+		const queue = new AutoReviewQueue(async keys => { reviewed.push(keys); return true; }, () => ({ delayMs: 20, idleMs: 0 }), clock);
+
+		queue.add('a.ts', 'hash-a');
+		queue.add('b.ts', 'hash-b');
+		await clock.advance(20);
+
+		assert.deepStrictEqual(reviewed, [['a.ts', 'b.ts']]);
+		queue.dispose();
+	});
+
+	test('Skips content that was already reviewed', async () => {
+		const queue = new AutoReviewQueue(async () => true, () => ({ delayMs: 0, idleMs: 0 }), clock);
+
+		queue.add('a.ts', 'hash-1');
+		await clock.advance(0);
+
+		assert.ok(queue.isUnchanged('a.ts', 'hash-1'));
+		assert.ok(!queue.isUnchanged('a.ts', 'hash-2'));
+		queue.dispose();
+	});
+
+	test('Reviews content again on its next save when the review failed', async () => {
+		let succeeds = false;
+		const queue = new AutoReviewQueue(async () => succeeds, () => ({ delayMs: 0, idleMs: 0 }), clock);
+
+		queue.add('a.ts', 'hash-1');
+		assert.ok(queue.isUnchanged('a.ts', 'hash-1'));
+		await clock.advance(0);
+		assert.ok(!queue.isUnchanged('a.ts', 'hash-1'));
+
+		succeeds = true;
+		queue.add('a.ts', 'hash-1');
+		await clock.advance(0);
+		assert.ok(queue.isUnchanged('a.ts', 'hash-1'));
+		queue.dispose();
+	});
+
+	test('Waits while paused', async () => {
+		const reviewed: string[][] = [];
+		const queue = new AutoReviewQueue(async keys => { reviewed.push(keys); return true; }, () => ({ delayMs: 0, idleMs: 0 }), clock);
+
+		queue.pause();
+		queue.add('a.ts', 'hash-a');
+		await clock.advance(100);
+		assert.deepStrictEqual(reviewed, []);
+
+		queue.resume();
+		await clock.advance(0);
+		assert.deepStrictEqual(reviewed, [['a.ts']]);
+		queue.dispose();
+	});
+
+	test('Postpones reviews while editing when waiting for idle time', async () => {
+		const reviewed: string[][] = [];
+		const queue = new AutoReviewQueue(async keys => { reviewed.push(keys); return true; }, () => ({ delayMs: 0, idleMs: 100 }), clock);
+
+		queue.add('a.ts', 'hash-a');
+		await clock.advance(50);
+		queue.noteActivity();
+		await clock.advance(99);
+		assert.deepStrictEqual(reviewed, []);
+
+		await clock.advance(1);
+		assert.deepStrictEqual(reviewed, [['a.ts']]);
+		queue.dispose();
+	});
+
+	test('Reviews queued files right away when flushed', async () => {
+		const reviewed: string[][] = [];
+		const queue = new AutoReviewQueue(async keys => { reviewed.push(keys); return true; }, () => ({ delayMs: 1000, idleMs: 1000 }), clock);
+
+		queue.add('a.ts', 'hash-a');
+		queue.flush();
+		await clock.advance(0);
+
+		assert.deepStrictEqual(reviewed, [['a.ts']]);
+		queue.dispose();
+	});
+});
+
+suite('Review Scheduler', () => {
+	test('Retries network failures', async () => {
+		const source = new CancellationSource();
+		let calls = 0;
+		const request = async () => {
+			calls++;
+			// Cancelling ends the wait before the retry, and the failure of the retry
+			setImmediate(() => source.cancel());
+			throw new TypeError('fetch failed', { cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }) });
+		};
+
+		await assert.rejects(new ReviewScheduler(1, 3).withRetry(request, source), TypeError);
+		assert.strictEqual(calls, 2);
+	});
+
+	test('Rethrows other errors right away', async () => {
+		let calls = 0;
+		const request = async () => {
+			calls++;
+			throw new TypeError('Cannot read properties of undefined');
+		};
+
+		await assert.rejects(new ReviewScheduler(1, 3).withRetry(request, new CancellationSource()), TypeError);
+		assert.strictEqual(calls, 1);
+	});
+});